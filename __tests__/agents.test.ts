@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { getAgentTags, isAgentAllowed, isScopedServer, resolveAgentServer } from "../agents";
+import type { ServerConfig } from "../types";
+
+describe("isAgentAllowed", () => {
+  it("allows every agent on unscoped servers", () => {
+    expect(isAgentAllowed({ command: "x" }, undefined)).toBe(true);
+    expect(isScopedServer({ command: "x" })).toBe(false);
+  });
+
+  it("matches agent ids and tags", () => {
+    const config: ServerConfig = { command: "x", allowAgents: ["main"], allowTags: ["finance"] };
+    expect(isScopedServer(config)).toBe(true);
+    expect(isAgentAllowed(config, "main")).toBe(true);
+    expect(isAgentAllowed(config, "ops", ["finance"])).toBe(true);
+    expect(isAgentAllowed(config, "ops", ["support"])).toBe(false);
+    expect(isAgentAllowed(config, undefined, ["finance"])).toBe(false);
+    expect(isAgentAllowed({ command: "x", allowAgents: ["*"] }, "anyone")).toBe(true);
+  });
+});
+
+describe("getAgentTags", () => {
+  it("merges plugin and host agent tags", () => {
+    const tags = getAgentTags(
+      { agents: { ops: { tags: ["finance"] } } },
+      { agents: { list: [{ id: "ops", tags: ["support", "finance"] }, { id: "main", tags: ["x"] }] } },
+      "ops"
+    );
+    expect(tags).toEqual(["finance", "support"]);
+    expect(getAgentTags({}, undefined, undefined)).toEqual([]);
+  });
+});
+
+describe("resolveAgentServer", () => {
+  const config: ServerConfig = {
+    url: "https://api.example.com/mcp",
+    headers: { Authorization: "Bearer ${DEFAULT_TOKEN}", "X-Team": "core" },
+    agentOverrides: {
+      alice: { headers: { Authorization: "Bearer ${ALICE_TOKEN}" } },
+      bob: { headers: { Authorization: "Bearer ${ALICE_TOKEN}" } },
+      carol: { env: { REGION: "eu" } },
+    },
+  };
+
+  it("uses the shared connection without overrides", () => {
+    expect(resolveAgentServer("api", config, "dave")).toEqual({ key: "api", config });
+    expect(resolveAgentServer("api", config, undefined).key).toBe("api");
+  });
+
+  it("keys connections by credential set and merges overrides", () => {
+    const alice = resolveAgentServer("api", config, "alice");
+    expect(alice.key).toMatch(/^api#[0-9a-f]{12}$/);
+    expect(alice.config.headers).toEqual({ Authorization: "Bearer ${ALICE_TOKEN}", "X-Team": "core" });
+
+    expect(resolveAgentServer("api", config, "bob").key).toBe(alice.key);
+    expect(resolveAgentServer("api", config, "carol").key).not.toBe(alice.key);
+  });
+
+  it("keys connections by workspace when one is given", () => {
+    const one = resolveAgentServer("api", config, "dave", "/work/one");
+    expect(one).toEqual({ key: expect.stringMatching(/^api#[0-9a-f]{12}$/), config });
+    expect(resolveAgentServer("api", config, "erin", "/work/one").key).toBe(one.key);
+    expect(resolveAgentServer("api", config, "dave", "/work/two").key).not.toBe(one.key);
+
+    const alice = resolveAgentServer("api", config, "alice", "/work/one");
+    expect(alice.key).not.toBe(one.key);
+    expect(alice.key).not.toBe(resolveAgentServer("api", config, "alice").key);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ConfirmationStore,
+  confirmationRequiredResult,
+  createConfirmTool,
+  getApprovalPolicy,
+  isDestructive,
+  isIdempotent,
+  requestHostApproval,
+} from "../approval";
+
+describe("annotations", () => {
+  it("treats declared destructive and non-read-only tools as destructive", () => {
+    expect(isDestructive({ destructiveHint: true })).toBe(true);
+    expect(isDestructive({ destructiveHint: true, readOnlyHint: true })).toBe(false);
+    expect(isDestructive({ readOnlyHint: false })).toBe(true);
+    expect(isDestructive({ readOnlyHint: false, destructiveHint: false })).toBe(false);
+    expect(isDestructive(undefined)).toBe(false);
+  });
+
+  it("applies the spec defaults when annotations omit the hints", () => {
+    expect(isDestructive({ openWorldHint: true })).toBe(true);
+    expect(isDestructive({})).toBe(true);
+    expect(isDestructive({ openWorldHint: true, destructiveHint: false })).toBe(false);
+    expect(isDestructive({ openWorldHint: true, readOnlyHint: true })).toBe(false);
+  });
+
+  it("treats read-only and idempotent tools as idempotent", () => {
+    expect(isIdempotent({ readOnlyHint: true })).toBe(true);
+    expect(isIdempotent({ idempotentHint: true })).toBe(true);
+    expect(isIdempotent({ destructiveHint: false })).toBe(false);
+    expect(isIdempotent(undefined)).toBe(false);
+  });
+});
+
+describe("getApprovalPolicy", () => {
+  it("confirms destructive tools by default", () => {
+    expect(getApprovalPolicy({ command: "x" }, "rm", { destructiveHint: true })).toBe("confirm");
+    expect(getApprovalPolicy({ command: "x" }, "ls", { readOnlyHint: true })).toBe("allow");
+  });
+
+  it("prefers tool overrides over the server policy", () => {
+    const config = { command: "x", approval: "confirm" as const, tools: { ls: { approval: "allow" as const } } };
+    expect(getApprovalPolicy(config, "ls")).toBe("allow");
+    expect(getApprovalPolicy(config, "write")).toBe("confirm");
+    expect(getApprovalPolicy({ command: "x", approval: "allow" }, "rm", { destructiveHint: true })).toBe(
+      "allow"
+    );
+  });
+});
+
+describe("requestHostApproval", () => {
+  const request = { server: "s", tool: "rm", agentTool: "s_rm", summary: "s/rm {}", params: {} };
+
+  it("returns undefined without a host hook", async () => {
+    expect(await requestHostApproval(undefined, request)).toBeUndefined();
+  });
+
+  it("accepts boolean and object decisions", async () => {
+    expect(await requestHostApproval(async () => true, request)).toBe(true);
+    expect(await requestHostApproval(async () => ({ approved: false }), request)).toBe(false);
+  });
+});
+
+describe("confirm-token flow", () => {
+  it("runs a parked call once with its original arguments", async () => {
+    const store = new ConfirmationStore<any>();
+    const run = vi.fn(async () => ({ content: [{ type: "text", text: "deleted" }] }));
+    const token = store.add("s/rm {\"path\":\"/tmp/x\"}", run);
+
+    const required = confirmationRequiredResult("s", "rm", "s/rm {}", token);
+    expect(required.details).toMatchObject({ error: "confirmation_required", token });
+    expect(required.content[0].text).toContain(`token "${token}"`);
+
+    const tool = createConfirmTool(store);
+    const result = await tool.execute("call-2", { token });
+    expect(result.content).toEqual([{ type: "text", text: "deleted" }]);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    const again = await tool.execute("call-3", { token });
+    expect(again.isError).toBe(true);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("expires tokens", () => {
+    let clock = 0;
+    const store = new ConfirmationStore(() => clock);
+    const token = store.add("label", async () => ({}));
+    clock += 10 * 60 * 1000;
+    expect(store.take(token)).toBeUndefined();
+  });
+
+  it("only redeems tokens for the agent that made the call", async () => {
+    const store = new ConfirmationStore<any>();
+    const run = vi.fn(async () => ({ content: [] }));
+    const token = store.add("label", run, "alice");
+
+    expect((await createConfirmTool(store, "bob").execute("call-2", { token })).isError).toBe(true);
+    expect((await createConfirmTool(store).execute("call-3", { token })).isError).toBe(true);
+    await createConfirmTool(store, "alice").execute("call-4", { token });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
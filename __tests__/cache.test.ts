@@ -0,0 +1,192 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  CACHE_VERSION,
+  configFingerprint,
+  diffCache,
+  formatCacheDiff,
+  isCacheChanged,
+  loadCache,
+  migrateCache,
+  toCachedTool,
+  writeCache,
+  writeCacheEntry,
+} from "../cache";
+
+const entry = (
+  server: string,
+  tools: Array<{ name: string; description?: string; inputSchema?: any; annotations?: any }>
+) => ({
+  server,
+  tools: tools.map(toCachedTool),
+  discoveredAt: "2026-01-01T00:00:00.000Z",
+});
+
+function tmpDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "mcp-bridge-"));
+}
+
+describe("diffCache", () => {
+  it("reports added, removed and schema-changed tools", () => {
+    const before = {
+      servers: [
+        entry("gh", [
+          { name: "keep", inputSchema: { type: "object", properties: { a: {}, b: {} } } },
+          { name: "gone" },
+          { name: "edit", inputSchema: { type: "object" } },
+        ]),
+      ],
+    };
+    const after = {
+      servers: [
+        entry("gh", [
+          // key order differences are not a schema change
+          { name: "keep", inputSchema: { properties: { b: {}, a: {} }, type: "object" } },
+          { name: "edit", inputSchema: { type: "object", required: ["x"] } },
+          { name: "new" },
+        ]),
+      ],
+    };
+
+    const diffs = diffCache(before, after);
+
+    expect(diffs).toEqual([{ server: "gh", added: ["new"], removed: ["gone"], changed: ["edit"] }]);
+    expect(formatCacheDiff(diffs[0])).toBe("gh: added new; removed gone; changed edit");
+  });
+
+  it("reports tools whose annotations or description changed", () => {
+    const before = {
+      servers: [
+        entry("gh", [
+          { name: "push", annotations: { readOnlyHint: true } },
+          { name: "list", description: "List repos" },
+        ]),
+      ],
+    };
+    const after = {
+      servers: [
+        entry("gh", [
+          { name: "push", annotations: { readOnlyHint: false } },
+          { name: "list", description: "List repositories" },
+        ]),
+      ],
+    };
+
+    expect(diffCache(before, after)).toEqual([
+      { server: "gh", added: [], removed: [], changed: ["push", "list"] },
+    ]);
+  });
+
+  it("omits unchanged servers and handles a missing previous cache", () => {
+    const cache = { servers: [entry("a", [{ name: "t" }])] };
+    expect(diffCache(cache, cache)).toEqual([]);
+    expect(diffCache(null, cache)).toEqual([{ server: "a", added: ["t"], removed: [], changed: [] }]);
+  });
+});
+
+describe("isCacheChanged", () => {
+  it("ignores discovery times but not prompts, resources or fingerprints", () => {
+    const cache = { servers: [entry("a", [{ name: "t" }]), entry("b", [])] };
+    const rediscovered = {
+      servers: [
+        { ...entry("b", []), discoveredAt: "2026-02-01T00:00:00.000Z" },
+        { ...entry("a", [{ name: "t" }]), discoveredAt: "2026-02-01T00:00:00.000Z" },
+      ],
+    };
+    expect(isCacheChanged(cache, rediscovered)).toBe(false);
+
+    const withPrompt = {
+      servers: [{ ...entry("a", [{ name: "t" }]), prompts: [{ name: "p" }] }, entry("b", [])],
+    };
+    expect(diffCache(cache, withPrompt)).toEqual([]);
+    expect(isCacheChanged(cache, withPrompt)).toBe(true);
+
+    const refingerprinted = {
+      servers: [{ ...entry("a", [{ name: "t" }]), configFingerprint: "abc" }, entry("b", [])],
+    };
+    expect(isCacheChanged(cache, refingerprinted)).toBe(true);
+  });
+});
+
+describe("cache versions", () => {
+  it("migrates v1 entries to the current version", () => {
+    const migrated = migrateCache({
+      version: 1,
+      servers: [
+        {
+          server: "docs",
+          tools: [{ name: "search", inputSchema: { type: "object" } }],
+          resources: [{ uri: "docs://index", name: "index" }],
+          resourceSubscribe: true,
+          discoveredAt: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    });
+
+    expect(migrated?.version).toBe(CACHE_VERSION);
+    const [server] = migrated!.servers;
+    expect(server.tools[0].schemaHash).toBe(toCachedTool(server.tools[0]).schemaHash);
+    expect(server.capabilities?.resources).toEqual({ subscribe: true });
+    expect(server.resources).toHaveLength(1);
+  });
+
+  it("rejects unknown versions and malformed files", () => {
+    expect(migrateCache({ version: 99, servers: [] })).toBeNull();
+    expect(migrateCache({ version: 2 })).toBeNull();
+
+    const dir = tmpDir();
+    const cachePath = path.join(dir, "cache.json");
+    fs.writeFileSync(cachePath, "{not json");
+    expect(loadCache(cachePath)).toBeNull();
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("fingerprints config without resolving env references", () => {
+    const a = configFingerprint({ command: "srv", env: { TOKEN: "${TOKEN}" } });
+    expect(configFingerprint({ command: "srv", env: { TOKEN: "${TOKEN}" }, enabled: true })).toBe(a);
+    expect(configFingerprint({ command: "srv", args: ["--other"] })).not.toBe(a);
+  });
+});
+
+describe("writeCache", () => {
+  it("writes the cache without leaving a temp file behind", () => {
+    const dir = tmpDir();
+    const cachePath = path.join(dir, ".mcp-tools-cache.json");
+
+    writeCache(cachePath, { version: CACHE_VERSION, servers: [entry("a", [])] });
+
+    expect(loadCache(cachePath)?.servers[0].server).toBe("a");
+    expect(fs.readdirSync(dir)).toEqual([".mcp-tools-cache.json"]);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
+
+describe("writeCacheEntry", () => {
+  it("updates one server's tools and keeps the rest of the file", () => {
+    const dir = tmpDir();
+    const cachePath = path.join(dir, ".mcp-tools-cache.json");
+    writeCache(cachePath, {
+      version: CACHE_VERSION,
+      servers: [{ ...entry("a", [{ name: "old" }]), prompts: [{ name: "p" }] }, entry("b", [])],
+    });
+
+    writeCacheEntry(cachePath, entry("a", [{ name: "new" }]));
+    writeCacheEntry(cachePath, entry("c", [{ name: "t" }]));
+
+    const cache = loadCache(cachePath)!;
+    expect(cache.servers.map((e) => e.server)).toEqual(["a", "b", "c"]);
+    expect(cache.servers[0].tools.map((t) => t.name)).toEqual(["new"]);
+    expect(cache.servers[0].prompts).toEqual([{ name: "p" }]);
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("creates the file when there is no cache yet", () => {
+    const dir = tmpDir();
+    const cachePath = path.join(dir, ".mcp-tools-cache.json");
+    writeCacheEntry(cachePath, entry("a", []));
+    expect(loadCache(cachePath)?.servers.map((e) => e.server)).toEqual(["a"]);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
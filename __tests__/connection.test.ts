@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { connectUrlTransport, type ServerConfig } from "../index";
+import { connectClient, connectUrlTransport, redactSecrets, type ServerConfig } from "../index";
+import { clearSecrets } from "../secrets";
 
 class FakeStreamableHTTPClientTransport {
   static shouldFail = false;
@@ -26,6 +27,21 @@ vi.mock("@modelcontextprotocol/sdk/client/sse.js", () => ({
   SSEClientTransport: FakeSSEClientTransport,
 }));
 
+// connect.ts imports the stdio transport statically, so the fake is hoisted
+const { FakeStdioClientTransport } = vi.hoisted(() => ({
+  FakeStdioClientTransport: class {
+    static lastOptions: any;
+
+    constructor(opts: any) {
+      FakeStdioClientTransport.lastOptions = opts;
+    }
+  },
+}));
+
+vi.mock("@modelcontextprotocol/sdk/client/stdio.js", () => ({
+  StdioClientTransport: FakeStdioClientTransport,
+}));
+
 function makeClient() {
   return {
     connect: vi.fn(async (_transport: any) => {
@@ -124,3 +140,26 @@ describe("connectUrlTransport", () => {
     expect(first).not.toBe(second);
   });
 });
+
+describe("connectClient", () => {
+  it("redacts env values but not ${HOME} paths in args", async () => {
+    clearSecrets();
+    process.env.TEST_STDIO_TOKEN = "stdio-token-123";
+    try {
+      const cfg: ServerConfig = {
+        command: "fs-server",
+        args: ["${HOME}/code"],
+        env: { TOKEN: "${TEST_STDIO_TOKEN}" },
+      };
+      await connectClient(makeClient(), "fs", cfg, makeLogger());
+
+      const home = process.env.HOME!;
+      expect(FakeStdioClientTransport.lastOptions.args).toEqual([`${home}/code`]);
+      expect(redactSecrets(`serving ${home}/code`)).toBe(`serving ${home}/code`);
+      expect(redactSecrets("token stdio-token-123")).toBe("token [redacted]");
+    } finally {
+      delete process.env.TEST_STDIO_TOKEN;
+      clearSecrets();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { toCachedTool } from "../cache";
+import { discoverServer, findCollisions, refreshCache } from "../discover";
+
+// When set, connectClient links the client to this in-memory server
+let upstream: Server | undefined;
+
+vi.mock("../connect.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../connect")>();
+  return {
+    ...actual,
+    connectClient: vi.fn(async (client: any, ...rest: any[]) => {
+      if (!upstream) return (actual.connectClient as any)(client, ...rest);
+      const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+      await upstream.connect(serverSide);
+      await client.connect(clientSide);
+    }),
+  };
+});
+
+afterEach(() => {
+  upstream = undefined;
+});
+
+describe("discoverServer", () => {
+  it("still returns tools when resource and prompt listing fail", async () => {
+    // Advertises resources and prompts but has no handlers for them
+    upstream = new Server(
+      { name: "flaky", version: "1.0.0" },
+      { capabilities: { tools: {}, resources: {}, prompts: {} } }
+    );
+    upstream.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: "search", inputSchema: { type: "object" } }],
+    }));
+    const logger = { info: vi.fn(), warn: vi.fn() };
+
+    const entry = await discoverServer("flaky", { command: "flaky" }, logger);
+
+    expect(entry.tools.map((t) => t.name)).toEqual(["search"]);
+    expect(entry.resources).toEqual([]);
+    expect(entry.prompts).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("flaky: resources/list failed"));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("flaky: prompts/list failed"));
+  });
+});
+
+describe("refreshCache", () => {
+  it("keeps the previous entry of a server that fails discovery", async () => {
+    const logger = { info: vi.fn(), warn: vi.fn() };
+    const previous = {
+      servers: [
+        { server: "broken", tools: [toCachedTool({ name: "t" })], discoveredAt: "2026-01-01T00:00:00.000Z" },
+      ],
+    };
+
+    // No command or url: discovery fails before spawning anything
+    const { cache, diffs, failed } = await refreshCache({ broken: {} }, previous, logger);
+
+    expect(failed).toEqual(["broken"]);
+    expect(cache.servers).toEqual(previous.servers);
+    expect(diffs).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("discovery failed for broken"));
+  });
+});
+
+describe("findCollisions", () => {
+  it("reports collisions between enabled servers only", () => {
+    const entry = (server: string) => ({
+      server,
+      tools: [toCachedTool({ name: "search" })],
+      discoveredAt: "2026-01-01T00:00:00.000Z",
+    });
+    const cache = { servers: [entry("a"), entry("b"), entry("c")] };
+
+    const collisions = findCollisions(cache, {
+      servers: {
+        a: { command: "a", toolPrefix: false },
+        b: { command: "b", toolPrefix: false },
+        c: { command: "c", toolPrefix: false, enabled: false },
+      },
+    });
+
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0].sources).toEqual(["a/tool:search", "b/tool:search"]);
+  });
+});
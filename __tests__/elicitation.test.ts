@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  appendElicitationNotes,
+  createElicitationHandler,
+  ElicitationNotes,
+  formatElicitationNote,
+} from "../elicitation";
+
+const quiet = { info: () => {}, warn: () => {} };
+
+const form = {
+  message: "Which branch should be deployed?",
+  requestedSchema: {
+    type: "object" as const,
+    properties: { branch: { type: "string" as const, description: "Git branch" } },
+    required: ["branch"],
+  },
+};
+
+describe("createElicitationHandler", () => {
+  it("is undefined unless enabled", () => {
+    expect(
+      createElicitationHandler({ serverName: "s", notes: new ElicitationNotes(), logger: quiet })
+    ).toBeUndefined();
+  });
+
+  it("asks the user through the host hook", async () => {
+    const hook = vi.fn(async () => ({ action: "accept" as const, content: { branch: "main" } }));
+    const handler = createElicitationHandler({
+      serverName: "s",
+      config: { enabled: true },
+      hook,
+      notes: new ElicitationNotes(),
+      logger: quiet,
+    })!;
+
+    expect(await handler(form, "s")).toEqual({ action: "accept", content: { branch: "main" } });
+    expect(hook).toHaveBeenCalledWith(
+      expect.objectContaining({ server: "s", mode: "form", requestedSchema: form.requestedSchema })
+    );
+  });
+
+  it("declines and leaves a note for the agent without a hook", async () => {
+    const notes = new ElicitationNotes();
+    const handler = createElicitationHandler({
+      serverName: "s",
+      config: { enabled: true, rateLimit: { calls: 1, per: "minute" } },
+      notes,
+      logger: quiet,
+    })!;
+
+    expect(await handler(form, "s#abc")).toEqual({ action: "decline" });
+    expect(await handler(form, "s#abc")).toEqual({ action: "decline" });
+    expect(notes.take("s")).toEqual([]);
+    // The second request hit the rate limit and left no note
+    expect(notes.take("s#abc")).toHaveLength(1);
+    expect(notes.take("s#abc")).toEqual([]);
+  });
+});
+
+describe("agent notes", () => {
+  it("lists the requested fields", () => {
+    const note = formatElicitationNote("deploy", form);
+    expect(note).toContain('deploy asked for input: "Which branch should be deployed?"');
+    expect(note).toContain("- branch (string, required): Git branch");
+  });
+
+  it("mentions the URL in URL mode", () => {
+    const note = formatElicitationNote("pay", {
+      mode: "url",
+      message: "Authorize the payment",
+      url: "https://pay.example.com/x",
+      elicitationId: "e1",
+    });
+    expect(note).toContain("open https://pay.example.com/x");
+  });
+
+  it("appends notes to a result", () => {
+    const result = { content: [{ type: "text", text: "done" }], isError: false };
+    expect(appendElicitationNotes(result, [])).toBe(result);
+    expect(appendElicitationNotes(result, ["[note]"]).content).toEqual([
+      { type: "text", text: "done" },
+      { type: "text", text: "[note]" },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CallLimiter, QueueAbortedError, QueueTimeoutError } from "../limiter";
+
+describe("CallLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("passes calls straight through without limits", async () => {
+    const limiter = new CallLimiter("srv");
+    const slots = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(slots.map((s) => s.waitedMs)).toEqual([0, 0, 0]);
+    expect(limiter.limited).toBe(false);
+    expect(limiter.stats()).toMatchObject({ active: 3, queued: 0 });
+  });
+
+  it("queues beyond maxConcurrency in FIFO order", async () => {
+    const limiter = new CallLimiter("srv", { maxConcurrency: 1 });
+    const order: number[] = [];
+
+    const first = await limiter.acquire();
+    const second = limiter.acquire().then((slot) => {
+      order.push(2);
+      return slot;
+    });
+    const third = limiter.acquire().then((slot) => {
+      order.push(3);
+      return slot;
+    });
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 2, maxQueued: 2 });
+
+    vi.advanceTimersByTime(100);
+    first.release();
+    first.release(); // idempotent
+    const secondSlot = await second;
+    expect(secondSlot).toMatchObject({ waitedMs: 100, queueDepth: 0 });
+    expect(order).toEqual([2]);
+
+    secondSlot.release();
+    const thirdSlot = await third;
+    expect(thirdSlot.queueDepth).toBe(1);
+    expect(order).toEqual([2, 3]);
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 0, waited: 2, maxWaitMs: 100 });
+  });
+
+  it("fails calls that wait longer than queueTimeoutMs", async () => {
+    const limiter = new CallLimiter("srv", { maxConcurrency: 1, queueTimeoutMs: 500 });
+    await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    const rejected = expect(waiting).rejects.toBeInstanceOf(QueueTimeoutError);
+    vi.advanceTimersByTime(500);
+    await rejected;
+    expect(limiter.stats()).toMatchObject({ queued: 0, timeouts: 1 });
+  });
+
+  it("removes aborted calls from the queue", async () => {
+    const limiter = new CallLimiter("srv", { maxConcurrency: 1 });
+    const first = await limiter.acquire();
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(QueueAbortedError);
+
+    first.release();
+    expect((await next).queueDepth).toBe(1);
+    expect(limiter.stats().queued).toBe(0);
+  });
+
+  it("spaces calls to stay within the rate limit", async () => {
+    const limiter = new CallLimiter("srv", { rateLimit: { calls: 2, per: "second" } });
+
+    (await limiter.acquire()).release();
+    vi.advanceTimersByTime(200);
+    (await limiter.acquire()).release();
+
+    const third = limiter.acquire();
+    let started = false;
+    void third.then(() => (started = true));
+
+    await vi.advanceTimersByTimeAsync(799);
+    expect(started).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(true);
+    expect((await third).waitedMs).toBe(800);
+  });
+});
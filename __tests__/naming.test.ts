@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCollision,
+  getAgentToolName,
+  globToRegExp,
+  isToolIncluded,
+  listToolNameCandidates,
+  resolveToolNames,
+  sanitizeToolName,
+  truncateToolName,
+} from "../naming";
+
+describe("tool naming", () => {
+  it("sanitizeToolName accepts a custom prefix string", () => {
+    expect(sanitizeToolName("github_mcp_server", "List-Issues", "gh")).toBe("gh_list_issues");
+    expect(sanitizeToolName("github_mcp_server", "list_issues", "")).toBe("list_issues");
+  });
+
+  it("prefix overrides toolPrefix and rename wins over both", () => {
+    const cfg = { command: "gh", toolPrefix: false, prefix: "gh", rename: { search_code: "Code Search" } };
+    expect(getAgentToolName("github", cfg, "list_issues")).toBe("gh_list_issues");
+    expect(getAgentToolName("github", cfg, "search_code")).toBe("code_search");
+    expect(getAgentToolName("github", { command: "gh" }, "list_issues")).toBe("github_list_issues");
+  });
+});
+
+describe("tool filtering", () => {
+  it("compiles globs", () => {
+    expect(globToRegExp("list_*").test("list_issues")).toBe(true);
+    expect(globToRegExp("get_?").test("get_a")).toBe(true);
+    expect(globToRegExp("get.*").test("get_a")).toBe(false);
+  });
+
+  it("applies includeTools then excludeTools", () => {
+    const cfg = { command: "gh", includeTools: ["list_*", "create_issue"], excludeTools: ["list_secrets"] };
+    expect(isToolIncluded(cfg, "list_issues")).toBe(true);
+    expect(isToolIncluded(cfg, "create_issue")).toBe(true);
+    expect(isToolIncluded(cfg, "delete_repo")).toBe(false);
+    expect(isToolIncluded(cfg, "list_secrets")).toBe(false);
+    expect(isToolIncluded({ command: "gh" }, "anything")).toBe(true);
+  });
+});
+
+describe("tool name collisions", () => {
+  const candidate = (server: string, name: string) => ({
+    server,
+    key: `tool:${name}`,
+    name,
+    prefixedName: `${server}_${name}`,
+  });
+  const clash = [candidate("a", "search"), candidate("b", "search"), candidate("c", "other")];
+
+  it("force-prefix prefixes every colliding tool", () => {
+    const { names, collisions } = resolveToolNames(clash, { strategy: "force-prefix" });
+    expect(names).toEqual(["a_search", "b_search", "other"]);
+    expect(collisions).toHaveLength(1);
+    expect(formatCollision(collisions[0])).toContain("'search' between a/tool:search, b/tool:search");
+  });
+
+  it("suffix, first-wins and error keep or drop later duplicates", () => {
+    expect(resolveToolNames(clash, { strategy: "suffix" }).names).toEqual(["search", "search_2", "other"]);
+    expect(resolveToolNames(clash, { strategy: "first-wins" }).names).toEqual(["search", null, "other"]);
+    expect(resolveToolNames(clash, { strategy: "error" }).names).toEqual([null, null, "other"]);
+  });
+
+  it("never takes a name that is already registered", () => {
+    const { names } = resolveToolNames([candidate("b", "search")], {
+      strategy: "suffix",
+      taken: new Set(["search"]),
+    });
+    expect(names).toEqual(["search_2"]);
+  });
+
+  it("truncates long names with a hash suffix and keeps them unique", () => {
+    const long = "x".repeat(80);
+    const a = truncateToolName(`${long}_one`, 64);
+    const b = truncateToolName(`${long}_two`, 64);
+    expect(a).toHaveLength(64);
+    expect(a).not.toBe(b);
+    expect(truncateToolName("short", 64)).toBe("short");
+  });
+
+  it("lists tool, resource and prompt names for an entry", () => {
+    const names = listToolNameCandidates("docs", { command: "docs", toolPrefix: false }, {
+      tools: [{ name: "search" }],
+      resources: [{ uri: "docs://index", name: "index" }],
+      prompts: [{ name: "summarize" }],
+    }).map((c) => c.name);
+    expect(names).toEqual(["search", "docs_list_resources", "docs_read_resource", "prompt_summarize"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { connectUrlTransport } from "../connect";
+import { OAuthRequiredError, runAuthorizationFlow, TokenStore } from "../oauth";
+
+// Minimal stand-in authorization server: metadata, dynamic registration,
+// PKCE authorization code grant and refresh grant
+let base = "";
+let challenge = "";
+const auth = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", base);
+  const body = await new Promise<string>((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+  });
+  const json = (status: number, value: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(value));
+  };
+
+  switch (url.pathname) {
+    case "/.well-known/oauth-protected-resource/mcp":
+      return json(200, { resource: `${base}/mcp`, authorization_servers: [base] });
+    case "/.well-known/oauth-authorization-server":
+      return json(200, {
+        issuer: base,
+        authorization_endpoint: `${base}/authorize`,
+        token_endpoint: `${base}/token`,
+        registration_endpoint: `${base}/register`,
+        response_types_supported: ["code"],
+        grant_types_supported: ["authorization_code", "refresh_token"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["none"],
+      });
+    case "/register":
+      return json(201, { ...JSON.parse(body), client_id: "client-1" });
+    case "/authorize": {
+      challenge = url.searchParams.get("code_challenge") ?? "";
+      const redirect = new URL(url.searchParams.get("redirect_uri")!);
+      redirect.searchParams.set("code", "code-1");
+      redirect.searchParams.set("state", url.searchParams.get("state") ?? "");
+      res.writeHead(302, { Location: redirect.href });
+      return res.end();
+    }
+    case "/token": {
+      const params = new URLSearchParams(body);
+      if (params.get("grant_type") === "refresh_token" && params.get("refresh_token") === "refresh-1") {
+        return json(200, { access_token: "access-2", token_type: "Bearer", refresh_token: "refresh-1", expires_in: 3600 });
+      }
+      const verifier = createHash("sha256").update(params.get("code_verifier") ?? "").digest("base64url");
+      if (params.get("code") !== "code-1" || verifier !== challenge) {
+        return json(400, { error: "invalid_grant" });
+      }
+      return json(200, { access_token: "access-1", token_type: "Bearer", refresh_token: "refresh-1", expires_in: 3600 });
+    }
+    default:
+      res.writeHead(404).end();
+  }
+});
+
+let dir = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => auth.listen(0, "127.0.0.1", () => resolve()));
+  base = `http://127.0.0.1:${(auth.address() as { port: number }).port}`;
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-bridge-oauth-"));
+});
+
+afterAll(() => {
+  auth.close();
+  auth.closeAllConnections();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("OAuth", () => {
+  it("runs the PKCE flow and stores tokens with restrictive permissions", async () => {
+    const store = new TokenStore(path.join(dir, "tokens.json"));
+    const config = { url: `${base}/mcp`, oauth: { redirectPort: 0 } };
+    const openUrl = async (url: URL) => {
+      await fetch(url); // the stand-in redirects straight to the loopback callback
+    };
+
+    const result = await runAuthorizationFlow("remote", `${base}/mcp`, config, { store, openUrl });
+
+    expect(result).toBe("authorized");
+    expect(store.get("remote", `${base}/mcp`)?.tokens?.access_token).toBe("access-1");
+    expect(store.get("remote", `${base}/mcp`)?.clientInformation?.client_id).toBe("client-1");
+    expect(fs.statSync(store.filePath).mode & 0o777).toBe(0o600);
+
+    // A second run refreshes instead of asking the user again
+    const again = await runAuthorizationFlow("remote", `${base}/mcp`, config, { store, openUrl });
+    expect(again).toBe("already-authorized");
+    expect(store.get("remote", `${base}/mcp`)?.tokens?.access_token).toBe("access-2");
+
+    // Tokens are bound to the server URL
+    expect(store.get("remote", `${base}/other`)).toBeUndefined();
+  });
+
+  it("refuses to connect without stored tokens", async () => {
+    const store = new TokenStore(path.join(dir, "empty.json"));
+    const client = new Client({ name: "test", version: "0.0.0" });
+    const logger = { info: () => {}, warn: () => {} };
+
+    await expect(
+      connectUrlTransport(client, "remote", { url: `${base}/mcp`, oauth: true }, logger, store)
+    ).rejects.toBeInstanceOf(OAuthRequiredError);
+  });
+});
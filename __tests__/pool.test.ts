@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+import { ConnectionManager, type ConnectionManagerOptions } from "../pool";
+import { SecretResolutionError } from "../secrets";
+import type { ServerConfig } from "../types";
+
+function fakeClient(ping: () => Promise<unknown> = async () => ({})) {
+  const client: any = {
+    ping: vi.fn(ping),
+    close: vi.fn(async () => {
+      client.onclose?.();
+    }),
+  };
+  return client;
+}
+
+function createManager(
+  servers: Record<string, ServerConfig>,
+  clients: any[],
+  options: Partial<ConnectionManagerOptions> = {}
+) {
+  let clock = 1_000_000;
+  const connect = vi.fn(async () => {
+    const next = clients.shift();
+    if (!next) throw new Error("spawn failed");
+    return next;
+  });
+  const manager = new ConnectionManager({
+    servers,
+    logger: { info: () => {}, warn: () => {} },
+    connect,
+    now: () => clock,
+    ...options,
+  });
+  return { manager, connect, advance: (ms: number) => (clock += ms) };
+}
+
+describe("ConnectionManager", () => {
+  it("shares one connect between concurrent callers", async () => {
+    const client = fakeClient();
+    const { manager, connect } = createManager({ srv: { command: "srv" } }, [client]);
+
+    const [a, b] = await Promise.all([manager.get("srv"), manager.get("srv")]);
+    expect(a).toBe(client);
+    expect(b).toBe(client);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(manager.stats()[0]).toMatchObject({ server: "srv", state: "connected", reconnects: 0 });
+  });
+
+  it("closes idle connections and reconnects on demand", async () => {
+    const first = fakeClient();
+    const second = fakeClient();
+    const { manager, advance } = createManager({ srv: { command: "srv", idleTimeoutMs: 60_000 } }, [
+      first,
+      second,
+    ]);
+
+    await manager.get("srv");
+    advance(30_000);
+    manager.closeIdle();
+    expect(first.close).not.toHaveBeenCalled();
+
+    advance(31_000);
+    manager.closeIdle();
+    expect(first.close).toHaveBeenCalled();
+    expect(manager.stats()[0].state).toBe("idle");
+
+    expect(await manager.get("srv")).toBe(second);
+    expect(manager.stats()[0]).toMatchObject({ state: "connected", reconnects: 1 });
+  });
+
+  it("evicts idle transient connections", async () => {
+    const client = fakeClient();
+    const onEvict = vi.fn();
+    const { manager, advance } = createManager(
+      { srv: { command: "srv" }, "srv#0123456789ab": { command: "srv" } },
+      [fakeClient(), client],
+      { transient: (key) => key.includes("#"), onEvict }
+    );
+
+    await manager.get("srv");
+    await manager.get("srv#0123456789ab");
+    advance(9 * 60_000);
+    manager.closeIdle();
+    expect(client.close).not.toHaveBeenCalled();
+
+    advance(60_000);
+    manager.closeIdle();
+    expect(client.close).toHaveBeenCalled();
+    expect(onEvict).toHaveBeenCalledWith("srv#0123456789ab");
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(manager.stats().map((s) => [s.server, s.state])).toEqual([["srv", "connected"]]);
+  });
+
+  it("drops connections that fail the health check", async () => {
+    const hung = fakeClient(async () => {
+      throw new Error("Request timed out");
+    });
+    const { manager, advance } = createManager({ srv: { command: "srv", pingIntervalMs: 10_000 } }, [
+      hung,
+    ]);
+
+    await manager.get("srv");
+    await manager.checkHealth();
+    expect(hung.ping).not.toHaveBeenCalled();
+
+    advance(10_000);
+    await manager.checkHealth();
+    expect(hung.ping).toHaveBeenCalledTimes(1);
+    expect(hung.close).toHaveBeenCalled();
+    expect(manager.stats()[0]).toMatchObject({ state: "failed", lastError: "Request timed out" });
+    await manager.stop();
+  });
+
+  it("notices transports that close on their own", async () => {
+    const client = fakeClient();
+    const { manager } = createManager({ srv: { command: "srv" } }, [client]);
+
+    await manager.get("srv");
+    client.onclose();
+    expect(manager.stats()[0]).toMatchObject({
+      state: "failed",
+      lastError: "connection closed unexpectedly",
+    });
+    await manager.stop();
+  });
+
+  it("reconnects recently used servers only", async () => {
+    vi.useFakeTimers();
+    try {
+      const [first, second, third] = [fakeClient(), fakeClient(), fakeClient()];
+      const { manager, connect, advance } = createManager({ srv: { command: "srv" } }, [
+        first,
+        second,
+        third,
+      ]);
+
+      await manager.get("srv");
+      first.onclose();
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(connect).toHaveBeenCalledTimes(2);
+
+      // Reconnecting is not use: once idle, a lost connection stays closed
+      advance(10 * 60_000);
+      second.onclose();
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(connect).toHaveBeenCalledTimes(2);
+      await manager.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("opens the circuit when a server keeps crashing after connecting", async () => {
+    vi.useFakeTimers();
+    try {
+      const clients = [fakeClient(), fakeClient(), fakeClient()];
+      const { manager, connect } = createManager(
+        { srv: { command: "srv", circuitBreaker: { failureThreshold: 2 } } },
+        [...clients]
+      );
+
+      await manager.get("srv");
+      clients[0].onclose();
+      await vi.advanceTimersByTimeAsync(1_000);
+      clients[1].onclose();
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(manager.stats()[0]).toMatchObject({ state: "failed", circuit: "open" });
+      await manager.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("counts calls and failures and trips the breaker on connect failures", async () => {
+    const { manager } = createManager(
+      { srv: { command: "srv", circuitBreaker: { failureThreshold: 1 } } },
+      []
+    );
+
+    manager.recordCall("srv", { tool: "build", durationMs: 100 });
+    manager.recordCall("srv", { tool: "build", durationMs: 300, error: new Error("boom") });
+    await expect(manager.get("srv")).rejects.toThrow("spawn failed");
+
+    expect(manager.stats()[0]).toMatchObject({
+      calls: 2,
+      failures: 1,
+      state: "failed",
+      circuit: "open",
+      lastError: "spawn failed",
+      tools: { build: { calls: 2, failures: 1, totalMs: 400, maxMs: 300 } },
+    });
+  });
+
+  it("does not trip the breaker on config errors", async () => {
+    const manager = new ConnectionManager({
+      servers: { srv: { command: "srv", circuitBreaker: { failureThreshold: 1 } } },
+      logger: { info: () => {}, warn: () => {} },
+      connect: async () => {
+        throw new SecretResolutionError("environment variable TOKEN is not set");
+      },
+    });
+
+    await expect(manager.get("srv")).rejects.toThrow("TOKEN is not set");
+    expect(manager.stats()[0]).toMatchObject({ state: "failed", circuit: "closed" });
+  });
+});
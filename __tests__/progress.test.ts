@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { createProgressHandler, formatProgress } from "../progress";
+
+describe("formatProgress", () => {
+  it("includes the percentage when the total is known", () => {
+    expect(formatProgress("ci/build", { progress: 3, total: 4, message: "linking" })).toBe(
+      "ci/build: progress 3/4 (75%) — linking"
+    );
+    expect(formatProgress("ci/build", { progress: 7 })).toBe("ci/build: progress 7");
+  });
+});
+
+describe("createProgressHandler", () => {
+  it("forwards every notification and throttles log lines", () => {
+    let clock = 0;
+    const logger = { info: vi.fn(), warn: vi.fn() };
+    const onUpdate = vi.fn();
+    const onprogress = createProgressHandler({ label: "ci/build", logger, onUpdate, now: () => clock });
+
+    onprogress({ progress: 1, total: 3 });
+    clock = 1000;
+    onprogress({ progress: 2, total: 3 });
+    clock = 6000;
+    onprogress({ progress: 3, total: 3 });
+
+    expect(onUpdate).toHaveBeenCalledTimes(3);
+    expect(onUpdate).toHaveBeenLastCalledWith({
+      content: [{ type: "text", text: "ci/build: progress 3/3 (100%)" }],
+      details: { progress: 3, total: 3, message: undefined },
+    });
+    expect(logger.info.mock.calls.map(([msg]) => msg)).toEqual([
+      "mcp-bridge: ci/build: progress 1/3 (33%)",
+      "mcp-bridge: ci/build: progress 3/3 (100%)",
+    ]);
+  });
+
+  it("ignores errors thrown by the host callback", () => {
+    const onprogress = createProgressHandler({
+      label: "ci/build",
+      logger: { info: () => {}, warn: () => {} },
+      onUpdate: () => {
+        throw new Error("host gone");
+      },
+    });
+    expect(() => onprogress({ progress: 1 })).not.toThrow();
+  });
+});
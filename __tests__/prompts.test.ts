@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPromptTool, promptParameters, renderPromptMessages } from "../prompts";
+
+const prompt = {
+  name: "summarize",
+  description: "Summarize a document",
+  arguments: [
+    { name: "doc", description: "Document id", required: true },
+    { name: "style" },
+  ],
+};
+
+describe("prompt helpers", () => {
+  it("builds string parameters with required arguments", () => {
+    expect(promptParameters(prompt)).toEqual({
+      type: "object",
+      properties: {
+        doc: { type: "string", description: "Document id" },
+        style: { type: "string" },
+      },
+      required: ["doc"],
+    });
+  });
+
+  it("renders text, image and resource messages", () => {
+    const content = renderPromptMessages([
+      { role: "user", content: { type: "text", text: "hello" } },
+      { role: "user", content: { type: "image", data: "AAA=", mimeType: "image/png" } },
+      { role: "assistant", content: { type: "resource", resource: { uri: "x://y", text: "body" } } },
+    ]);
+
+    expect(content).toEqual([
+      { type: "text", text: "[user] hello" },
+      { type: "image", data: "AAA=", mimeType: "image/png" },
+      { type: "text", text: "[assistant] body" },
+    ]);
+  });
+});
+
+describe("createPromptTool", () => {
+  it("calls prompts/get with stringified arguments", async () => {
+    const client = {
+      getPrompt: vi.fn(async () => ({
+        messages: [{ role: "user", content: { type: "text", text: "Summarize 42" } }],
+      })),
+    };
+    const tool = createPromptTool({
+      serverName: "docs",
+      prompt,
+      toolName: "docs_prompt_summarize",
+      getClient: async () => client as any,
+    });
+
+    const result = await tool.execute("call-1", { doc: 42 });
+
+    expect(client.getPrompt).toHaveBeenCalledWith({ name: "summarize", arguments: { doc: "42" } });
+    expect(result).toEqual({ content: [{ type: "text", text: "[user] Summarize 42" }], isError: false });
+  });
+
+  it("rejects missing required arguments without calling the server", async () => {
+    const client = { getPrompt: vi.fn() };
+    const tool = createPromptTool({
+      serverName: "docs",
+      prompt,
+      toolName: "docs_prompt_summarize",
+      getClient: async () => client as any,
+    });
+
+    const result = await tool.execute("call-1", {});
+
+    expect(result.isError).toBe(true);
+    expect(client.getPrompt).not.toHaveBeenCalled();
+  });
+});
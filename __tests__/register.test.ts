@@ -0,0 +1,316 @@
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  RootsListChangedNotificationSchema,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { toCachedTool, writeCacheEntry } from "../cache";
+import { connectClient } from "../connect";
+import type { ServerConfig } from "../types";
+import register from "../index";
+
+// Upstream server; its tool list can change while connected
+let upstreamTools: Tool[] = [{ name: "search", inputSchema: { type: "object" } }];
+let upstream: Server | undefined;
+const upstreams: Server[] = [];
+const upstreamCalls = vi.fn();
+let connectError: Error | undefined;
+
+vi.mock("../connect.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../connect")>()),
+  connectClient: vi.fn(async (client: any) => {
+    if (connectError) throw connectError;
+    upstream = new Server(
+      { name: "srv", version: "1.0.0" },
+      { capabilities: { tools: { listChanged: true } } }
+    );
+    upstream.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: upstreamTools }));
+    upstream.setRequestHandler(CallToolRequestSchema, async (request) => {
+      upstreamCalls(request.params.name);
+      return { content: [{ type: "text", text: `ran ${request.params.name}` }] };
+    });
+    upstreams.push(upstream);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await upstream.connect(serverSide);
+    await client.connect(clientSide);
+  }),
+}));
+
+vi.mock("../cache.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../cache")>();
+  return {
+    ...actual,
+    loadCache: vi.fn(() => ({
+      version: actual.CACHE_VERSION,
+      servers: [
+        {
+          server: "srv",
+          tools: [{ name: "search", inputSchema: { type: "object" } }].map(actual.toCachedTool),
+          discoveredAt: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    })),
+    writeCache: vi.fn(),
+    writeCacheEntry: vi.fn(),
+  };
+});
+
+function fakeApi(srv: ServerConfig = { command: "srv" }, extra: Record<string, unknown> = {}) {
+  const tools = new Map<string, any>();
+  const services: any[] = [];
+  return {
+    tools,
+    services,
+    api: {
+      config: {
+        plugins: { entries: { "mcp-bridge": { config: { servers: { srv }, ...extra } } } },
+      },
+      logger: { info: () => {}, warn: () => {} },
+      registerTool: vi.fn((tool: any, opts?: { name?: string }) =>
+        tools.set(opts?.name ?? tool.name, tool)
+      ),
+      unregisterTool: vi.fn((name: string) => tools.delete(name)),
+      registerService: (service: any) => services.push(service),
+    },
+  };
+}
+
+describe("tools/list_changed", () => {
+  afterEach(() => {
+    upstreamTools = [{ name: "search", inputSchema: { type: "object" } }];
+  });
+
+  it("re-registers changed tools and writes the server's cache entry", async () => {
+    const { api, tools, services } = fakeApi();
+    register(api);
+    expect([...tools.keys()]).toContain("srv_search");
+
+    const result = await tools.get("srv_search")({}).execute("call-1", {});
+    expect(result.content).toEqual([{ type: "text", text: "ran search" }]);
+
+    upstreamTools = [{ name: "fetch", inputSchema: { type: "object" } }];
+    await upstream!.sendToolListChanged();
+
+    await vi.waitFor(() => expect(tools.has("srv_fetch")).toBe(true));
+    expect(tools.has("srv_search")).toBe(false);
+    expect(api.unregisterTool).toHaveBeenCalledWith("srv_search");
+    expect(writeCacheEntry).toHaveBeenCalledWith(
+      expect.stringContaining(".mcp-tools-cache.json"),
+      expect.objectContaining({
+        server: "srv",
+        tools: [toCachedTool({ name: "fetch", inputSchema: { type: "object" } })],
+      })
+    );
+
+    await services[0].stop();
+  });
+
+  it("re-registers tools whose annotations changed", async () => {
+    const { api, tools, services } = fakeApi();
+    register(api);
+    await tools.get("srv_search")({}).execute("call-1", {});
+    expect(tools.get("srv_search")({}).description).not.toContain("confirmation");
+
+    upstreamTools = [
+      { name: "search", inputSchema: { type: "object" }, annotations: { destructiveHint: true } },
+    ];
+    await upstream!.sendToolListChanged();
+
+    await vi.waitFor(() => expect(api.unregisterTool).toHaveBeenCalledWith("srv_search"));
+    expect(tools.get("srv_search")({}).description).toContain("Requires user confirmation.");
+    await services[0].stop();
+  });
+});
+
+describe("connection failures", () => {
+  beforeEach(() => {
+    vi.mocked(connectClient).mockClear();
+  });
+
+  afterEach(() => {
+    connectError = undefined;
+  });
+
+  it("counts each failed connect once against the circuit breaker", async () => {
+    connectError = Object.assign(new Error("refused"), { code: "ECONNREFUSED" });
+    const { api, tools, services } = fakeApi({
+      command: "srv",
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2 },
+    });
+    register(api);
+    const search = tools.get("srv_search")({});
+
+    expect((await search.execute("call-1", {})).content[0].text).toContain("refused");
+    expect((await search.execute("call-2", {})).content[0].text).toContain("refused");
+    expect(connectClient).toHaveBeenCalledTimes(2);
+
+    expect((await search.execute("call-3", {})).content[0].text).toContain("circuit open");
+    expect(connectClient).toHaveBeenCalledTimes(2);
+    await services[0].stop();
+  });
+});
+
+describe("result processing", () => {
+  const tmpdir = process.env.TMPDIR;
+
+  afterEach(() => {
+    if (tmpdir === undefined) delete process.env.TMPDIR;
+    else process.env.TMPDIR = tmpdir;
+  });
+
+  it("fails the call without retrying or blaming the connection", async () => {
+    vi.mocked(connectClient).mockClear();
+    upstreamCalls.mockClear();
+    const { api, tools, services } = fakeApi(
+      { command: "srv", maxResultChars: 4, retry: { maxAttempts: 3 } },
+      { resultStorage: "file" }
+    );
+    register(api);
+    const search = tools.get("srv_search")({});
+
+    // Spilling the full result to a file fails
+    process.env.TMPDIR = "/nonexistent/mcp-bridge-test";
+    const failed = await search.execute("call-1", {});
+    expect(failed.isError).toBe(true);
+    expect(failed.content[0].text).toContain("the tool ran but its result could not be processed");
+    expect(upstreamCalls).toHaveBeenCalledTimes(1);
+
+    delete process.env.TMPDIR;
+    const ok = await search.execute("call-2", {});
+    expect(ok.isError).toBe(false);
+    expect(connectClient).toHaveBeenCalledTimes(1);
+
+    const status = await tools.get("mcp_bridge_status")({}).execute("call-3", { format: "json" });
+    expect(JSON.parse(status.content[0].text).servers[0]).toMatchObject({
+      state: "connected",
+      calls: 2,
+      failures: 0,
+    });
+    await services[0].stop();
+  });
+});
+
+describe("workspace roots", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.MCP_BRIDGE_TEST_ROOT;
+  });
+
+  it("gives agents with different workspaces their own connection and roots", async () => {
+    upstreams.length = 0;
+    const { api, tools, services } = fakeApi({ command: "srv", roots: ["${workspace}"] });
+    register(api);
+    const factory = tools.get("srv_search");
+    const alice = factory({ agentId: "alice", workspaceDir: "/ws/alice" });
+    const bob = factory({ agentId: "bob", workspaceDir: "/ws/bob" });
+
+    await alice.execute("call-1", {});
+    await bob.execute("call-2", {});
+    await alice.execute("call-3", {});
+
+    expect(upstreams).toHaveLength(2);
+    expect((await upstreams[0].listRoots()).roots).toEqual([{ uri: "file:///ws/alice" }]);
+    expect((await upstreams[1].listRoots()).roots).toEqual([{ uri: "file:///ws/bob" }]);
+    await services[0].stop();
+  });
+
+  it("notifies a shared connection when its roots change", async () => {
+    upstreams.length = 0;
+    process.env.MCP_BRIDGE_TEST_ROOT = "/data/one";
+    const { api, tools, services } = fakeApi({ command: "srv", roots: ["${MCP_BRIDGE_TEST_ROOT}"] });
+    register(api);
+    const search = tools.get("srv_search")({});
+
+    await search.execute("call-1", {});
+    const changed = vi.fn();
+    upstreams[0].setNotificationHandler(RootsListChangedNotificationSchema, changed);
+    expect(upstreams[0].getClientCapabilities()?.roots).toEqual({ listChanged: true });
+    expect((await upstreams[0].listRoots()).roots).toEqual([{ uri: "file:///data/one" }]);
+
+    await search.execute("call-2", {});
+    expect(changed).not.toHaveBeenCalled();
+
+    process.env.MCP_BRIDGE_TEST_ROOT = "/data/two";
+    await search.execute("call-3", {});
+    await vi.waitFor(() => expect(changed).toHaveBeenCalledTimes(1));
+    expect((await upstreams[0].listRoots()).roots).toEqual([{ uri: "file:///data/two" }]);
+    expect(upstreams).toHaveLength(1);
+    await services[0].stop();
+  });
+
+  it("evicts idle per-workspace connections and re-creates them on use", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "Date"] });
+    upstreams.length = 0;
+    const { api, tools, services } = fakeApi(
+      { command: "srv", roots: ["${workspace}"] },
+      { refreshOnStart: false }
+    );
+    register(api);
+    await services[0].start();
+    const alice = tools.get("srv_search")({ agentId: "alice", workspaceDir: "/ws/alice" });
+
+    await alice.execute("call-1", {});
+    const closed = vi.fn();
+    upstreams[0].onclose = closed;
+
+    vi.advanceTimersByTime(11 * 60_000);
+    await vi.waitFor(() => expect(closed).toHaveBeenCalled());
+
+    await alice.execute("call-2", {});
+    expect(upstreams).toHaveLength(2);
+    expect((await upstreams[1].listRoots()).roots).toEqual([{ uri: "file:///ws/alice" }]);
+    await services[0].stop();
+  });
+});
+
+describe("agent isolation", () => {
+  it("reports only the servers an agent may use", async () => {
+    const { api, tools, services } = fakeApi(undefined, {
+      servers: { srv: { command: "srv" }, team: { command: "team", allowAgents: ["alice"] } },
+    });
+    register(api);
+    const status = (agentId: string) =>
+      tools.get("mcp_bridge_status")({ agentId }).execute("call-1", { format: "json" });
+
+    const forAlice = JSON.parse((await status("alice")).content[0].text);
+    expect(forAlice.servers.map((s: any) => s.server)).toEqual(["srv", "team"]);
+    const forBob = JSON.parse((await status("bob")).content[0].text);
+    expect(forBob.servers.map((s: any) => s.server)).toEqual(["srv"]);
+    await services[0].stop();
+  });
+
+  it("keeps truncated results to the agent that made the call", async () => {
+    const { api, tools, services } = fakeApi({ command: "srv", maxResultChars: 4 });
+    register(api);
+
+    const result = await tools.get("srv_search")({ agentId: "alice" }).execute("call-1", {});
+    const id = result.details.truncated.id;
+    const read = (agentId: string) =>
+      tools.get("mcp_bridge_read_result")({ agentId }).execute("call-2", { id });
+
+    expect((await read("bob")).isError).toBe(true);
+    expect((await read("alice")).content[0].text).toContain("ran search");
+    await services[0].stop();
+  });
+
+  it("lets only the calling agent confirm a pending call", async () => {
+    const { api, tools, services } = fakeApi({
+      command: "srv",
+      tools: { search: { approval: "confirm" } },
+    });
+    register(api);
+
+    const pending = await tools.get("srv_search")({ agentId: "alice" }).execute("call-1", {});
+    const token = pending.content[0].text.match(/c_[0-9a-f]+/)[0];
+    const confirm = (agentId: string) =>
+      tools.get("mcp_bridge_confirm")({ agentId }).execute("call-2", { token });
+
+    expect((await confirm("bob")).isError).toBe(true);
+    expect((await confirm("alice")).content).toEqual([{ type: "text", text: "ran search" }]);
+    await services[0].stop();
+  });
+});
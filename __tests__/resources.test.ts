@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createResourceTools,
+  expandResourceTemplate,
+  resourceContentsToToolContent,
+  validateResourceUri,
+  type CachedResourceTemplate,
+} from "../resources";
+
+const templates: CachedResourceTemplate[] = [
+  { uriTemplate: "db://tables/{table}/rows/{id}", name: "row" },
+];
+
+function makeTools(client: any, resourceSubscribe = false) {
+  return createResourceTools({
+    serverName: "db",
+    toolName: (suffix) => `db_${suffix}`,
+    entry: {
+      server: "db",
+      resources: [{ uri: "db://schema", name: "schema", mimeType: "text/plain" }],
+      resourceTemplates: templates,
+      capabilities: { resources: { subscribe: resourceSubscribe } },
+    },
+    getClient: async () => client,
+    subscriptions: { subscribed: new Set(), updated: new Set() },
+  });
+}
+
+describe("resource helpers", () => {
+  it("expands a known template", () => {
+    expect(expandResourceTemplate(templates, templates[0].uriTemplate, { table: "users", id: 7 })).toBe(
+      "db://tables/users/rows/7"
+    );
+  });
+
+  it("rejects unknown templates and missing variables", () => {
+    expect(() => expandResourceTemplate(templates, "db://{x}", { x: "1" })).toThrow(
+      "Unknown resource template"
+    );
+    expect(() =>
+      expandResourceTemplate(templates, templates[0].uriTemplate, { table: "users" })
+    ).toThrow("Missing template variable(s)");
+  });
+
+  it("rejects unexpanded template URIs", () => {
+    expect(() => validateResourceUri("db://tables/{table}")).toThrow("is a URI template");
+    expect(() => validateResourceUri("db://schema")).not.toThrow();
+  });
+
+  it("converts image blobs and summarizes other binaries", () => {
+    const content = resourceContentsToToolContent([
+      { uri: "img://a", mimeType: "image/png", blob: "aGVsbG8=" },
+      { uri: "bin://b", mimeType: "application/pdf", blob: "aGVsbG8=" },
+    ]);
+    expect(content[0]).toEqual({ type: "image", data: "aGVsbG8=", mimeType: "image/png" });
+    expect(content[1]).toMatchObject({ type: "text" });
+    expect((content[1] as any).text).toContain("application/pdf");
+  });
+
+  it("inlines large image blobs like tool-result images", () => {
+    const screenshot = "A".repeat(200_000);
+    const content = resourceContentsToToolContent([{ uri: "img://big", mimeType: "image/png", blob: screenshot }]);
+    expect(content).toEqual([{ type: "image", data: screenshot, mimeType: "image/png" }]);
+  });
+});
+
+describe("createResourceTools", () => {
+  it("registers list/read tools and subscribe only when supported", () => {
+    expect(makeTools({}).map((t) => t.name)).toEqual(["db_list_resources", "db_read_resource"]);
+    expect(makeTools({}, true).map((t) => t.name)).toContain("db_subscribe_resource");
+  });
+
+  it("reads a resource expanded from a template", async () => {
+    const client = {
+      readResource: vi.fn(async ({ uri }: { uri: string }) => ({
+        contents: [{ uri, text: "row data" }],
+      })),
+    };
+    const read = makeTools(client).find((t) => t.name === "db_read_resource");
+
+    const result = await read.execute("call-1", {
+      template: templates[0].uriTemplate,
+      arguments: { table: "users", id: "1" },
+    });
+
+    expect(client.readResource).toHaveBeenCalledWith({ uri: "db://tables/users/rows/1" });
+    expect(result).toEqual({ content: [{ type: "text", text: "row data" }], isError: false });
+  });
+
+  it("returns an error result for template URIs passed as uri", async () => {
+    const client = { readResource: vi.fn() };
+    const read = makeTools(client).find((t) => t.name === "db_read_resource");
+
+    const result = await read.execute("call-1", { uri: "db://tables/{table}/rows/{id}" });
+
+    expect(result.isError).toBe(true);
+    expect(client.readResource).not.toHaveBeenCalled();
+  });
+});
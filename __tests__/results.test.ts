@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { convertToolResult, formatResourceLink } from "../results";
+import { compileOutputValidator } from "../validate";
+
+describe("convertToolResult", () => {
+  it("passes text and small images through", async () => {
+    const result = await convertToolResult({
+      content: [
+        { type: "text", text: "hello" },
+        { type: "image", data: "aGk=", mimeType: "image/png" },
+      ],
+    });
+    expect(result).toEqual({
+      content: [
+        { type: "text", text: "hello" },
+        { type: "image", data: "aGk=", mimeType: "image/png" },
+      ],
+      isError: false,
+    });
+  });
+
+  it("passes large images through unchanged, embedded or not", async () => {
+    const screenshot = "A".repeat(200_000);
+    const { content } = await convertToolResult({
+      content: [
+        { type: "image", data: screenshot, mimeType: "image/png" },
+        { type: "resource", resource: { uri: "file:///s.png", mimeType: "image/png", blob: screenshot } },
+      ],
+    });
+    expect(content).toEqual([
+      { type: "image", data: screenshot, mimeType: "image/png" },
+      { type: "image", data: screenshot, mimeType: "image/png" },
+    ]);
+  });
+
+  it("summarizes audio and binary embedded resources", async () => {
+    const { content } = await convertToolResult({
+      content: [
+        { type: "audio", data: "A".repeat(400), mimeType: "audio/wav" },
+        { type: "resource", resource: { uri: "file:///a.pdf", mimeType: "application/pdf", blob: "AAAA" } },
+        { type: "resource", resource: { uri: "file:///a.txt", text: "notes" } },
+      ],
+    });
+    expect(content).toEqual([
+      { type: "text", text: "[audio: audio/wav, ~300 bytes not inlined]" },
+      { type: "text", text: "[binary resource file:///a.pdf: application/pdf, ~3 bytes not inlined]" },
+      { type: "text", text: "notes" },
+    ]);
+  });
+
+  it("renders resource links and fetches them when enabled", async () => {
+    const link = { type: "resource_link", uri: "file:///r.md", name: "r.md", mimeType: "text/markdown" };
+    expect(formatResourceLink(link)).toBe("[resource link] r.md: file:///r.md (text/markdown)");
+
+    const fetched = await convertToolResult(
+      { content: [link] },
+      { readResource: async (uri) => [{ uri, text: "# R" }] }
+    );
+    expect(fetched.content).toEqual([
+      { type: "text", text: "[resource link] r.md: file:///r.md (text/markdown)" },
+      { type: "text", text: "# R" },
+    ]);
+
+    const failed = await convertToolResult(
+      { content: [link] },
+      {
+        readResource: async () => {
+          throw new Error("not found");
+        },
+      }
+    );
+    expect(failed.content[0]).toMatchObject({ text: expect.stringContaining("could not be read: not found") });
+  });
+
+  it("renders structuredContent as JSON when there is no text", async () => {
+    const result = await convertToolResult({ content: [], structuredContent: { count: 2 } });
+    expect(result.content).toEqual([{ type: "text", text: '{\n  "count": 2\n}' }]);
+    expect(result.details).toEqual({ structuredContent: { count: 2 } });
+  });
+
+  it("reports structuredContent that does not match the outputSchema", async () => {
+    const validateOutput = compileOutputValidator({
+      type: "object",
+      properties: { count: { type: "integer" } },
+      required: ["count"],
+    });
+
+    const ok = await convertToolResult(
+      { content: [{ type: "text", text: "2" }], structuredContent: { count: 2 } },
+      { validateOutput }
+    );
+    expect(ok.details?.outputSchemaErrors).toBeUndefined();
+
+    const bad = await convertToolResult(
+      { content: [{ type: "text", text: "two" }], structuredContent: { count: "two" } },
+      { validateOutput }
+    );
+    expect(bad.isError).toBe(false);
+    expect(bad.details?.outputSchemaErrors).toEqual([{ path: "/count", message: "must be integer" }]);
+    expect(bad.content.at(-1)).toMatchObject({ text: expect.stringContaining("- /count: must be integer") });
+
+    const errored = await convertToolResult(
+      { content: [{ type: "text", text: "boom" }], isError: true },
+      { validateOutput }
+    );
+    expect(errored.details).toBeUndefined();
+  });
+
+  it("never returns empty content", async () => {
+    const result = await convertToolResult({ content: [] });
+    expect(result.content).toEqual([{ type: "text", text: "(the tool returned no content)" }]);
+  });
+});
@@ -0,0 +1,99 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  classifyError,
+  computeBackoff,
+  isRetryable,
+  resolveRetryPolicy,
+  ServerConfigError,
+} from "../retry";
+import { OAuthRequiredError } from "../oauth";
+import { SecretResolutionError } from "../secrets";
+
+describe("retry policy", () => {
+  it("classifies JSON-RPC, timeout and transport errors", () => {
+    expect(classifyError(new McpError(ErrorCode.InvalidParams, "bad"))).toBe("protocol");
+    expect(classifyError(new McpError(ErrorCode.RequestTimeout, "slow"))).toBe("timeout");
+    expect(classifyError(new McpError(ErrorCode.ConnectionClosed, "closed"))).toBe("connection");
+    expect(classifyError(Object.assign(new Error("refused"), { code: "ECONNREFUSED" }))).toBe(
+      "connection"
+    );
+    expect(classifyError(new Error("Not connected"))).toBe("connection");
+  });
+
+  it("never retries config errors", () => {
+    expect(classifyError(new SecretResolutionError("X is not set"))).toBe("config");
+    expect(classifyError(new OAuthRequiredError("gh"))).toBe("config");
+    expect(classifyError(new ServerConfigError("No config for MCP server 'x'"))).toBe("config");
+    expect(
+      classifyError(new Error("connect failed", { cause: new SecretResolutionError("unset") }))
+    ).toBe("config");
+
+    const policy = resolveRetryPolicy({ retryOn: ["connection", "config" as any] });
+    expect(isRetryable("config", policy)).toBe(false);
+    expect(isRetryable("connection", policy)).toBe(true);
+  });
+
+  it("backs off exponentially up to maxDelayMs with bounded jitter", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 500, jitter: 0 });
+    expect([1, 2, 3, 4].map((n) => computeBackoff(n, policy))).toEqual([100, 200, 400, 500]);
+
+    const jittered = resolveRetryPolicy({ initialDelayMs: 100, jitter: 0.5 });
+    expect(computeBackoff(1, jittered, () => 0)).toBe(50);
+    expect(computeBackoff(1, jittered, () => 1)).toBe(150);
+  });
+
+  it("defaults to retrying connection errors only", () => {
+    expect(resolveRetryPolicy().retryOn).toEqual(["connection"]);
+    expect(resolveRetryPolicy().maxAttempts).toBe(2);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after the threshold and half-opens after the cooldown", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("flaky", { failureThreshold: 2, cooldownMs: 1000 }, () => now);
+
+    breaker.recordFailure(new Error("spawn failed"));
+    expect(() => breaker.check()).not.toThrow();
+    breaker.recordFailure(new Error("spawn failed"));
+
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+    expect(() => breaker.check()).toThrow(/Last error: spawn failed/);
+
+    now = 1000;
+    expect(() => breaker.check()).not.toThrow(); // trial call
+    expect(breaker.state).toBe("half-open");
+    expect(() => breaker.check()).toThrow(CircuitOpenError); // only one trial
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it("re-opens when the half-open trial fails", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("flaky", { failureThreshold: 1, cooldownMs: 10 }, () => now);
+
+    breaker.recordFailure(new Error("down"));
+    now = 10;
+    breaker.check();
+    breaker.recordFailure(new Error("still down"));
+
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.check()).toThrow(CircuitOpenError);
+  });
+
+  it("keeps counting failures across successful connects", () => {
+    const breaker = new CircuitBreaker("crashy", { failureThreshold: 2 });
+
+    breaker.recordFailure(new Error("closed"));
+    breaker.recordConnected();
+    breaker.recordFailure(new Error("closed"));
+
+    expect(breaker.state).toBe("open");
+  });
+});
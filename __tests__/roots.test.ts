@@ -0,0 +1,92 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListRootsRequestSchema,
+  RootsListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import * as os from "node:os";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAgentWorkspace, resolveRoots, toRootUri, usesWorkspace } from "../roots";
+
+describe("toRootUri", () => {
+  it("turns paths into file URIs and passes URIs through", () => {
+    expect(toRootUri("/srv/repo")).toBe("file:///srv/repo");
+    expect(toRootUri("~/code")).toBe(`file://${os.homedir()}/code`);
+    expect(toRootUri("file:///tmp/x")).toBe("file:///tmp/x");
+  });
+});
+
+describe("resolveRoots", () => {
+  afterEach(() => {
+    delete process.env.TEST_ROOT_DIR;
+  });
+
+  it("expands env references and the workspace", () => {
+    process.env.TEST_ROOT_DIR = "/data";
+    const roots = resolveRoots(
+      "fs",
+      ["${TEST_ROOT_DIR}/shared", { path: "${workspace}", name: "Workspace" }, "/data/shared"],
+      "/home/me/ws"
+    );
+    expect(roots).toEqual([
+      { uri: "file:///data/shared" },
+      { uri: "file:///home/me/ws", name: "Workspace" },
+    ]);
+  });
+
+  it("skips workspace roots without a workspace and unresolvable entries", () => {
+    const warn = vi.fn();
+    const roots = resolveRoots("fs", ["${workspace}/src", "${TEST_ROOT_DIR}", "/etc"], undefined, {
+      info: () => {},
+      warn,
+    });
+    expect(roots).toEqual([{ uri: "file:///etc" }]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("TEST_ROOT_DIR is not set"));
+  });
+});
+
+describe("workspace", () => {
+  it("detects workspace roots", () => {
+    expect(usesWorkspace({ command: "x", roots: ["${workspace}/src"] })).toBe(true);
+    expect(usesWorkspace({ command: "x", roots: ["/srv"] })).toBe(false);
+    expect(usesWorkspace({ command: "x" })).toBe(false);
+  });
+
+  it("reads agent and default workspaces from the host config", () => {
+    const host = {
+      agents: { defaults: { workspace: "/ws/default" }, list: [{ id: "ops", workspace: "/ws/ops" }] },
+    };
+    expect(getAgentWorkspace(host, "ops")).toBe("/ws/ops");
+    expect(getAgentWorkspace(host, "main")).toBe("/ws/default");
+    expect(getAgentWorkspace(undefined, "ops")).toBeUndefined();
+  });
+});
+
+describe("roots over MCP", () => {
+  it("answers roots/list and notifies list changes", async () => {
+    const server = new Server({ name: "fs", version: "1.0.0" }, { capabilities: {} });
+    const changed = vi.fn();
+    server.setNotificationHandler(RootsListChangedNotificationSchema, changed);
+
+    let workspace = "/ws/a";
+    const client = new Client(
+      { name: "bridge", version: "0" },
+      { capabilities: { roots: { listChanged: true } } }
+    );
+    client.setRequestHandler(ListRootsRequestSchema, () => ({
+      roots: resolveRoots("fs", ["${workspace}"], workspace),
+    }));
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    await client.connect(clientSide);
+
+    expect((await server.listRoots()).roots).toEqual([{ uri: "file:///ws/a" }]);
+    workspace = "/ws/b";
+    await client.sendRootsListChanged();
+    await vi.waitFor(() => expect(changed).toHaveBeenCalled());
+    expect((await server.listRoots()).roots).toEqual([{ uri: "file:///ws/b" }]);
+    await client.close();
+  });
+});
@@ -0,0 +1,113 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CreateMessageRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it, vi } from "vitest";
+import { createSamplingHandler, runSamplingCommand, type SamplingParams } from "../sampling";
+
+const quiet = { info: () => {}, warn: () => {} };
+
+const params: SamplingParams = {
+  messages: [{ role: "user", content: { type: "text", text: "Summarize this" } }],
+  maxTokens: 4000,
+};
+
+describe("createSamplingHandler", () => {
+  it("is undefined when disabled or without a route", () => {
+    expect(createSamplingHandler({ serverName: "s", logger: quiet })).toBeUndefined();
+    const warn = vi.fn();
+    expect(
+      createSamplingHandler({ serverName: "s", config: { enabled: true }, logger: { ...quiet, warn } })
+    ).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no sampling.handler"));
+  });
+
+  it("clamps maxTokens and routes to the host hook", async () => {
+    const hook = vi.fn(async () => ({ text: "A summary", model: "host-model" }));
+    const handler = createSamplingHandler({
+      serverName: "s",
+      config: { enabled: true, maxTokens: 256 },
+      hook,
+      logger: quiet,
+    })!;
+
+    expect(await handler(params)).toEqual({
+      role: "assistant",
+      content: { type: "text", text: "A summary" },
+      model: "host-model",
+      stopReason: "endTurn",
+    });
+    expect(hook).toHaveBeenCalledWith(expect.objectContaining({ server: "s", maxTokens: 256 }));
+  });
+
+  it("rejects requests over the rate limit", async () => {
+    let clock = 0;
+    const handler = createSamplingHandler({
+      serverName: "s",
+      config: { enabled: true, rateLimit: { calls: 1, per: "minute" } },
+      hook: async () => "ok",
+      logger: quiet,
+      now: () => clock,
+    })!;
+
+    await handler(params);
+    await expect(handler(params)).rejects.toThrow(/rate limit/);
+    clock += 60_000;
+    await expect(handler(params)).resolves.toMatchObject({ content: { text: "ok" } });
+  });
+
+  it("answers server requests over MCP", async () => {
+    const server = new Server({ name: "s", version: "1.0.0" }, { capabilities: {} });
+    const client = new Client({ name: "bridge", version: "0" }, { capabilities: { sampling: {} } });
+    const handler = createSamplingHandler({
+      serverName: "s",
+      config: { enabled: true, model: "configured" },
+      hook: async (request) => `echo: ${(request.messages[0].content as any).text}`,
+      logger: quiet,
+    })!;
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      handler(request.params, extra.signal)
+    );
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    await client.connect(clientSide);
+
+    const result = await server.createMessage(params);
+    expect(result).toMatchObject({ content: { text: "echo: Summarize this" }, model: "configured" });
+    await client.close();
+  });
+});
+
+describe("runSamplingCommand", () => {
+  const request = { server: "s", messages: params.messages, maxTokens: 10 };
+
+  it("reads JSON or plain text from the handler", async () => {
+    const json = await runSamplingCommand(
+      {
+        command: process.execPath,
+        args: [
+          "-e",
+          'let s="";process.stdin.on("data",c=>s+=c).on("end",()=>console.log(JSON.stringify({text:"got "+JSON.parse(s).maxTokens,model:"local"})))',
+        ],
+      },
+      request
+    );
+    expect(json).toEqual({ text: "got 10", model: "local" });
+
+    const text = await runSamplingCommand(
+      { command: process.execPath, args: ["-e", 'console.log("plain answer")'] },
+      request
+    );
+    expect(text).toBe("plain answer");
+  });
+
+  it("fails on a non-zero exit", async () => {
+    await expect(
+      runSamplingCommand(
+        { command: process.execPath, args: ["-e", 'console.error("no model");process.exit(2)'] },
+        request
+      )
+    ).rejects.toThrow(/exit code 2\): no model/);
+  });
+});
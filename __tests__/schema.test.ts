@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { hasLossyChanges, normalizeSchema } from "../schema";
+
+describe("normalizeSchema", () => {
+  it("inlines local refs and drops definitions", () => {
+    const { schema, changes } = normalizeSchema({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: { filter: { $ref: "#/$defs/Filter", description: "What to match" } },
+      $defs: { Filter: { type: "object", properties: { q: { type: "string" } } } },
+    });
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: { q: { type: "string" } },
+          description: "What to match",
+        },
+      },
+    });
+    expect(changes.some((c) => c.message === "inlined $ref #/$defs/Filter")).toBe(true);
+    expect(hasLossyChanges({ schema, changes })).toBe(false);
+  });
+
+  it("breaks recursive refs and records the loss", () => {
+    const result = normalizeSchema({
+      type: "object",
+      properties: { tree: { $ref: "#/$defs/Node" } },
+      $defs: { Node: { type: "object", properties: { child: { $ref: "#/$defs/Node" } } } },
+    });
+
+    expect((result.schema as any).properties.tree.properties.child).toEqual({});
+    expect(hasLossyChanges(result)).toBe(true);
+  });
+
+  it("guarantees an object root", () => {
+    expect(normalizeSchema(undefined).schema).toEqual({ type: "object", properties: {} });
+    expect(normalizeSchema({ properties: { a: { type: "string" } } }).schema).toEqual({
+      type: "object",
+      properties: { a: { type: "string" } },
+    });
+    expect(hasLossyChanges(normalizeSchema({ type: "string" }))).toBe(true);
+  });
+
+  it("downgrades unsupported keywords in the strict profile", () => {
+    const { schema, changes } = normalizeSchema(
+      {
+        type: "object",
+        properties: {
+          id: { type: ["string", "null"], format: "custom-id" },
+          kind: { const: "issue" },
+          target: { oneOf: [{ type: "string" }, { type: "number" }] },
+          meta: { type: "object", additionalProperties: { type: "string" } },
+        },
+      },
+      "strict"
+    );
+
+    expect(schema.properties).toEqual({
+      id: { type: "string", nullable: true },
+      kind: { enum: ["issue"] },
+      target: { anyOf: [{ type: "string" }, { type: "number" }] },
+      meta: { type: "object" },
+    });
+    expect(changes.filter((c) => c.lossy).map((c) => c.path)).toEqual([
+      "#/properties/id",
+      "#/properties/meta",
+    ]);
+  });
+
+  it("leaves schemas untouched with the none profile", () => {
+    const input = { type: "object", $defs: { A: {} }, properties: {} };
+    expect(normalizeSchema(input, "none").schema).toBe(input);
+  });
+});
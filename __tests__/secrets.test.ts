@@ -0,0 +1,73 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearSecrets,
+  createRedactingLogger,
+  redactErrorResult,
+  redactSecrets,
+  resolveSecrets,
+  SecretResolutionError,
+} from "../secrets";
+
+afterEach(() => {
+  clearSecrets();
+  delete process.env.TEST_SECRET_TOKEN;
+});
+
+describe("resolveSecrets", () => {
+  it("resolves env references with and without the env: prefix", () => {
+    process.env.TEST_SECRET_TOKEN = "tok-123";
+    expect(resolveSecrets("Bearer ${TEST_SECRET_TOKEN}")).toBe("Bearer tok-123");
+    expect(resolveSecrets("${env:TEST_SECRET_TOKEN}")).toBe("tok-123");
+  });
+
+  it("uses defaults for unset or empty variables", () => {
+    expect(resolveSecrets("${TEST_SECRET_TOKEN:-fallback}")).toBe("fallback");
+    expect(resolveSecrets("${env:TEST_SECRET_TOKEN:-}")).toBe("");
+    process.env.TEST_SECRET_TOKEN = "";
+    expect(resolveSecrets("${TEST_SECRET_TOKEN:-fallback}")).toBe("fallback");
+  });
+
+  it("fails on missing required variables with context", () => {
+    expect(() => resolveSecrets("${TEST_SECRET_TOKEN}", "github headers.Authorization")).toThrow(
+      new SecretResolutionError(
+        "environment variable TEST_SECRET_TOKEN is not set (referenced in github headers.Authorization)"
+      )
+    );
+  });
+
+  it("reads file references", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-bridge-secret-"));
+    const file = path.join(dir, "token");
+    fs.writeFileSync(file, "file-secret\n");
+    try {
+      expect(resolveSecrets(`token=\${file:${file}}`)).toBe("token=file-secret");
+      expect(() => resolveSecrets(`\${file:${path.join(dir, "missing")}}`)).toThrow(/cannot read secret file/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("redaction", () => {
+  it("redacts resolved values from logs and error results", () => {
+    process.env.TEST_SECRET_TOKEN = "tok-123";
+    resolveSecrets("${TEST_SECRET_TOKEN}");
+    resolveSecrets("${UNSET_SECRET_VAR:-plain-default}");
+
+    expect(redactSecrets("401 for tok-123 (plain-default)")).toBe("401 for [redacted] (plain-default)");
+
+    const warn = vi.fn();
+    createRedactingLogger({ info: vi.fn(), warn }).warn("auth tok-123 failed");
+    expect(warn).toHaveBeenCalledWith("auth [redacted] failed");
+
+    const ok = { content: [{ type: "text", text: "tok-123" }], isError: false };
+    expect(redactErrorResult(ok)).toBe(ok);
+    expect(
+      redactErrorResult({ content: [{ type: "text", text: "MCP error (x/y): bad token tok-123" }], isError: true })
+        .content[0].text
+    ).toBe("MCP error (x/y): bad token [redacted]");
+  });
+});
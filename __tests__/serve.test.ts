@@ -0,0 +1,188 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CacheEntry } from "../cache";
+import { createHttpServer, Gateway, planGatewayTools } from "../serve";
+import type { PluginConfig } from "../types";
+
+const quiet = { info: () => {}, warn: () => {} };
+
+function entry(server: string, tools: Array<Record<string, unknown>>): CacheEntry {
+  return {
+    server,
+    tools: tools.map((t) => ({ schemaHash: "x", inputSchema: { type: "object" }, ...t })) as any,
+    discoveredAt: "2026-01-01T00:00:00Z",
+  };
+}
+
+const cache = {
+  servers: [
+    entry("files", [
+      {
+        name: "read",
+        description: "Read a file",
+        inputSchema: { type: "object", properties: { path: { type: "string" } }, required: ["path"] },
+        annotations: { readOnlyHint: true },
+      },
+      { name: "wipe", annotations: { destructiveHint: true } },
+      { name: "debug" },
+    ]),
+    entry("team", [{ name: "secret" }]),
+    entry("off", [{ name: "noop" }]),
+  ],
+};
+
+const config: PluginConfig = {
+  servers: {
+    files: { command: "files", excludeTools: ["debug"], tools: { wipe: { approval: "deny" } } },
+    team: { command: "team", allowAgents: ["main"] },
+    off: { command: "off", enabled: false },
+  },
+};
+
+/** Upstream server with a `read` tool that echoes its path. */
+async function upstream(): Promise<Client> {
+  const server = new Server({ name: "files", version: "1.0.0" }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: "text", text: `contents of ${request.params.arguments?.path}` }],
+  }));
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  const client = new Client({ name: "gateway", version: "0" });
+  await client.connect(clientSide);
+  return client;
+}
+
+describe("planGatewayTools", () => {
+  it("applies filters, deny policies and agent scoping with plugin names", () => {
+    const { tools } = planGatewayTools(cache, config);
+    expect(tools.map((t) => [t.name, t.server, t.tool.name])).toEqual([["files_read", "files", "read"]]);
+  });
+
+  it("leaves out tools that need confirmation", () => {
+    const { tools } = planGatewayTools(
+      {
+        servers: [
+          entry("ops", [
+            { name: "status" },
+            { name: "restart", annotations: { readOnlyHint: false } },
+            { name: "deploy" },
+          ]),
+        ],
+      },
+      { servers: { ops: { command: "ops", tools: { deploy: { approval: "confirm" } } } } }
+    );
+    expect(tools.map((t) => t.name)).toEqual(["ops_status"]);
+  });
+
+  it("names tools as the plugin does when agent-scoped servers collide", () => {
+    const { tools } = planGatewayTools(
+      { servers: [entry("team", [{ name: "search" }]), entry("web", [{ name: "search" }])] },
+      {
+        servers: {
+          team: { command: "team", prefix: "", allowAgents: ["main"] },
+          web: { command: "web", prefix: "" },
+        },
+      }
+    );
+    expect(tools.map((t) => [t.name, t.server])).toEqual([["web_search", "web"]]);
+  });
+
+  it("returns collisions, which fail the gateway under the error strategy", () => {
+    const colliding = { servers: [entry("a", [{ name: "search" }]), entry("b", [{ name: "search" }])] };
+    const servers = { a: { command: "a", toolPrefix: false }, b: { command: "b", toolPrefix: false } };
+
+    const { tools, collisions } = planGatewayTools(colliding, { servers, collisionStrategy: "error" });
+    expect(tools).toEqual([]);
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0].sources).toEqual(["a/tool:search", "b/tool:search"]);
+
+    const logger = { info: vi.fn(), warn: vi.fn() };
+    expect(
+      () => new Gateway({ config: { servers, collisionStrategy: "error" }, cache: colliding, logger })
+    ).toThrow("1 tool name collision(s)");
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("search"));
+  });
+});
+
+describe("Gateway", () => {
+  let gateway: Gateway | undefined;
+
+  afterEach(async () => {
+    await gateway?.stop();
+  });
+
+  it("serves aggregated tools and routes calls upstream", async () => {
+    gateway = new Gateway({ config, cache, logger: quiet, connect: upstream });
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await gateway.createServer().connect(serverSide);
+    const client = new Client({ name: "ide", version: "0" });
+    await client.connect(clientSide);
+
+    const { tools } = await client.listTools();
+    expect(tools).toEqual([
+      expect.objectContaining({
+        name: "files_read",
+        description: "Read a file (MCP: files/read)",
+        annotations: { readOnlyHint: true },
+      }),
+    ]);
+
+    const result = await client.callTool({ name: "files_read", arguments: { path: "/etc/hosts" } });
+    expect(result.content).toEqual([{ type: "text", text: "contents of /etc/hosts" }]);
+
+    const invalid = await client.callTool({ name: "files_read", arguments: {} });
+    expect(invalid.isError).toBe(true);
+    expect((invalid.content as any)[0].text).toContain("Invalid arguments for files/read");
+
+    const unknown = await client.callTool({ name: "files_wipe", arguments: {} });
+    expect(unknown.isError).toBe(true);
+
+    await client.close();
+  });
+
+  it("rejects HTTP requests for other hosts and origins", async () => {
+    gateway = new Gateway({ config, cache, logger: quiet, connect: upstream });
+    const httpServer = createHttpServer(gateway, quiet);
+    await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    const post = (headers: Record<string, string>) =>
+      new Promise<number>((resolve, reject) => {
+        const req = http.request(
+          {
+            host: "127.0.0.1",
+            port,
+            path: "/mcp",
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "application/json, text/event-stream",
+              ...headers,
+            },
+          },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode ?? 0);
+          }
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }));
+      });
+
+    try {
+      expect(await post({})).toBe(200);
+      expect(await post({ Origin: `http://localhost:${port}` })).toBe(200);
+      expect(await post({ Host: `attacker.example:${port}` })).toBe(403);
+      expect(await post({ Origin: "http://attacker.example" })).toBe(403);
+    } finally {
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+  });
+});
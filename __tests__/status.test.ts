@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { configFingerprint, type CacheEntry } from "../cache";
+import type { ConnectionStats } from "../pool";
+import { buildStatus, createStatusTool, formatAge, formatStatus } from "../status";
+import type { PluginConfig } from "../types";
+
+const NOW = Date.parse("2026-01-02T12:00:00Z");
+
+const config: PluginConfig = {
+  servers: {
+    github: { command: "npx", args: ["github-mcp"], excludeTools: ["delete_repo"] },
+    remote: { url: "https://mcp.example.com/mcp" },
+    off: { command: "off", enabled: false },
+  },
+};
+
+function entry(server: string, tools: string[], extra: Partial<CacheEntry> = {}): CacheEntry {
+  return {
+    server,
+    tools: tools.map((name) => ({ name, inputSchema: { type: "object" } })) as any,
+    discoveredAt: "2026-01-02T10:00:00Z",
+    ...extra,
+  };
+}
+
+const connections: ConnectionStats[] = [
+  {
+    server: "remote",
+    state: "connected",
+    circuit: "closed",
+    transport: "sse",
+    connectedSince: "2026-01-02T11:59:00Z",
+    lastError: "HTTP 502",
+    lastErrorAt: "2026-01-02T11:58:00Z",
+    calls: 3,
+    failures: 1,
+    reconnects: 1,
+    tools: {
+      search: { calls: 3, failures: 1, totalMs: 300, maxMs: 200 },
+    },
+  },
+];
+
+function report() {
+  return buildStatus({
+    config,
+    configSource: "/etc/openclaw.json",
+    cachePath: "/tmp/.mcp-tools-cache.json",
+    cache: {
+      servers: [
+        entry("github", ["create_issue", "delete_repo"], {
+          configFingerprint: configFingerprint(config.servers!.github),
+        }),
+        entry("remote", ["search"], { configFingerprint: "outdated" }),
+      ],
+    },
+    connections,
+    queues: {
+      remote: {
+        active: 1,
+        queued: 2,
+        maxConcurrency: 1,
+        maxQueued: 3,
+        waited: 4,
+        totalWaitMs: 800,
+        maxWaitMs: 500,
+        timeouts: 1,
+      },
+    },
+    now: NOW,
+  });
+}
+
+describe("buildStatus", () => {
+  it("combines config, cache and connection stats per server", () => {
+    const [github, remote, off] = report().servers;
+
+    expect(github).toMatchObject({
+      enabled: true,
+      configuredTransport: "stdio",
+      state: "not connected",
+      cached: true,
+      cachedTools: 2,
+      exposedTools: 1,
+      cacheAgeMs: 2 * 3600_000,
+      cacheStale: false,
+      tools: [],
+    });
+    expect(remote).toMatchObject({
+      configuredTransport: "auto",
+      transport: "sse",
+      state: "connected",
+      lastError: "HTTP 502",
+      cacheStale: true,
+      tools: [{ name: "search", calls: 3, failures: 1, avgMs: 100, maxMs: 200 }],
+    });
+    expect(off).toMatchObject({ enabled: false, cached: false, cachedTools: 0 });
+  });
+
+  it("lists per-agent connections and their queues under their server", () => {
+    const queue = {
+      active: 0,
+      queued: 0,
+      maxQueued: 0,
+      waited: 0,
+      totalWaitMs: 0,
+      maxWaitMs: 0,
+      timeouts: 0,
+    };
+    const status = buildStatus({
+      config,
+      configSource: "/etc/openclaw.json",
+      cachePath: "/tmp/.mcp-tools-cache.json",
+      cache: null,
+      connections: [
+        { ...connections[0], server: "github#0123456789ab", transport: "stdio" },
+        { ...connections[0], server: "other#0123456789ab" },
+      ],
+      queues: { "github#0123456789ab": queue, "github#ba9876543210": queue },
+      now: NOW,
+    });
+
+    expect(status.servers.map((s) => s.connection ?? s.server)).toEqual([
+      "github",
+      "github#0123456789ab",
+      "github#ba9876543210",
+      "remote",
+      "off",
+    ]);
+    expect(status.servers[1]).toMatchObject({
+      server: "github",
+      state: "connected",
+      calls: 3,
+      queue,
+    });
+    expect(status.servers[2]).toMatchObject({ state: "not connected", queue });
+    expect(formatStatus(status)).toContain("github#0123456789ab: connected (stdio)");
+  });
+
+  it("limits an agent's report to its servers and connections", () => {
+    const status = buildStatus({
+      config: { servers: { ...config.servers, team: { command: "team", allowAgents: ["alice"] } } },
+      configSource: "/etc/openclaw.json",
+      cachePath: "/tmp/.mcp-tools-cache.json",
+      cache: null,
+      connections: [
+        { ...connections[0], server: "github#0123456789ab" },
+        { ...connections[0], server: "github#ba9876543210" },
+      ],
+      agent: { id: "bob", connections: ["github#ba9876543210", "remote", "off", "team"] },
+      now: NOW,
+    });
+
+    expect(status.servers.map((s) => s.connection ?? s.server)).toEqual([
+      "github",
+      "github#ba9876543210",
+      "remote",
+      "off",
+    ]);
+  });
+});
+
+describe("formatStatus", () => {
+  it("renders a readable summary", () => {
+    const text = formatStatus(report());
+
+    expect(text).toContain("Config: /etc/openclaw.json");
+    expect(text).toContain("github: not connected (stdio)");
+    expect(text).toContain("cache: 2 tool(s) (1 exposed), discovered 2h ago");
+    expect(text).toContain("remote: connected (auto → sse)");
+    expect(text).toContain("stale: server config changed since discovery");
+    expect(text).toContain("last error (2026-01-02T11:58:00Z): HTTP 502");
+    expect(text).toContain("- search: 3 call(s), 1 failed, avg 100ms, max 200ms");
+    expect(text).toContain(
+      "queue: 1 active (limit 1), 2 waiting (max 3), 4 waited avg 200ms max 500ms, 1 timed out"
+    );
+    expect(text).toContain("off: disabled (stdio)");
+    expect(text).toContain("cache: no entry");
+  });
+
+  it("formats ages", () => {
+    expect(formatAge(45_000)).toBe("45s");
+    expect(formatAge(5 * 60_000)).toBe("5m");
+    expect(formatAge(3 * 86400_000)).toBe("3d");
+  });
+});
+
+describe("createStatusTool", () => {
+  it("filters by server and returns JSON on request", async () => {
+    const tool = createStatusTool(report);
+    const result = await tool.execute("call-1", { server: "remote", format: "json" });
+
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.servers.map((s: any) => s.server)).toEqual(["remote"]);
+    expect(result.details.servers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLevelLogger, redactArguments, Telemetry } from "../telemetry";
+
+function captureLogger() {
+  const lines: Array<[string, string]> = [];
+  return {
+    lines,
+    logger: {
+      info: (msg: string) => lines.push(["info", msg]),
+      warn: (msg: string) => lines.push(["warn", msg]),
+    },
+  };
+}
+
+function records(lines: Array<[string, string]>) {
+  return lines.map(([level, msg]) => ({ level, ...JSON.parse(msg.replace(/^mcp-bridge: tool_call /, "")) }));
+}
+
+describe("createLevelLogger", () => {
+  it("drops lines below the configured level", () => {
+    const { lines, logger } = captureLogger();
+    const warnOnly = createLevelLogger(logger, "warn");
+    warnOnly.info("a");
+    warnOnly.warn("b");
+    warnOnly.debug?.("c");
+    expect(lines).toEqual([["warn", "b"]]);
+
+    const debug = createLevelLogger(logger, "debug");
+    debug.debug?.("d");
+    expect(lines.at(-1)).toEqual(["info", "d"]);
+  });
+});
+
+describe("redactArguments", () => {
+  it("redacts credential-like and configured keys at any depth", () => {
+    expect(
+      redactArguments(
+        { query: "x", auth: { apiKey: "k", user: "u" }, items: [{ password: "p" }], note: "n" },
+        ["note"]
+      )
+    ).toEqual({
+      query: "x",
+      auth: "[redacted]",
+      items: [{ password: "[redacted]" }],
+      note: "[redacted]",
+    });
+  });
+});
+
+describe("Telemetry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("logs one record per call with retries, transport and size", () => {
+    const { lines, logger } = captureLogger();
+    let clock = 1000;
+    const telemetry = new Telemetry(logger, { logArguments: true }, {}, () => clock);
+
+    const call = telemetry.startCall({
+      server: "github",
+      tool: "search",
+      agentTool: "github_search",
+      toolCallId: "tc-1",
+      args: { q: "bug", token: "t0ps3cret" },
+    });
+    call.attempt();
+    call.fail(new Error("socket hang up"), "connection");
+    call.attempt();
+    call.setTransport("stdio");
+    clock += 250;
+    const result = { content: [{ type: "text", text: "hello" }] };
+    expect(call.end(result)).toBe(result);
+
+    expect(records(lines)).toEqual([
+      {
+        level: "info",
+        event: "tool_call",
+        server: "github",
+        tool: "search",
+        agentTool: "github_search",
+        toolCallId: "tc-1",
+        outcome: "success",
+        durationMs: 250,
+        retries: 1,
+        transport: "stdio",
+        resultChars: 5,
+        arguments: '{"q":"bug","token":"[redacted]"}',
+      },
+    ]);
+  });
+
+  it("classifies failures and logs them as warnings", () => {
+    const { lines, logger } = captureLogger();
+    const telemetry = new Telemetry(logger);
+
+    const failed = telemetry.startCall({ server: "s", tool: "t", agentTool: "s_t", args: {} });
+    failed.attempt();
+    failed.fail(new Error("boom"), "protocol");
+    failed.end({ content: [{ type: "text", text: "MCP error" }], isError: true });
+
+    const timedOut = telemetry.startCall({ server: "s", tool: "t", agentTool: "s_t", args: {} });
+    timedOut.end({ content: [], details: { error: "timeout" }, isError: true });
+
+    const toolError = telemetry.startCall({ server: "s", tool: "t", agentTool: "s_t", args: {} });
+    toolError.end({ content: [{ type: "text", text: "not found" }], isError: true });
+
+    expect(records(lines).map((r) => [r.level, r.outcome, r.errorType, r.error])).toEqual([
+      ["warn", "error", "protocol", "boom"],
+      ["warn", "timeout", undefined, undefined],
+      ["info", "tool_error", undefined, undefined],
+    ]);
+  });
+
+  it("exports OTLP/JSON spans to a file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-bridge-trace-"));
+    const file = path.join(dir, "traces.jsonl");
+    const { logger } = captureLogger();
+    const telemetry = new Telemetry(logger, { level: "off" }, { file, serviceName: "test-bridge" });
+
+    const call = telemetry.startCall({ server: "s", tool: "t", agentTool: "s_t", args: {} });
+    call.attempt();
+    call.setTransport("sse");
+    call.end({ content: [{ type: "text", text: "ok" }] });
+    await telemetry.shutdown();
+
+    const request = JSON.parse(fs.readFileSync(file, "utf-8").trim());
+    const resource = request.resourceSpans[0];
+    expect(resource.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "test-bridge" } },
+    ]);
+    const span = resource.scopeSpans[0].spans[0];
+    expect(span).toMatchObject({ name: "tools/call t", kind: 3, status: { code: 1 } });
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(span.attributes).toContainEqual({ key: "mcp.server.name", value: { stringValue: "s" } });
+    expect(span.attributes).toContainEqual({ key: "mcp.transport", value: { stringValue: "sse" } });
+    expect(span.attributes).toContainEqual({ key: "mcp.call.retries", value: { intValue: "0" } });
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("drops spans the collector does not accept in time", async () => {
+    let init: RequestInit | undefined;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, options: RequestInit) => {
+        init = options;
+        throw new DOMException("The operation was aborted due to timeout", "TimeoutError");
+      })
+    );
+    const { lines, logger } = captureLogger();
+    const telemetry = new Telemetry(logger, { level: "off" }, { endpoint: "http://collector:4318/" });
+
+    telemetry.startCall({ server: "s", tool: "t", agentTool: "s_t", args: {} }).end({ content: [] });
+    await telemetry.shutdown();
+
+    expect(fetch).toHaveBeenCalledWith("http://collector:4318/v1/traces", expect.anything());
+    expect(init?.signal).toBeInstanceOf(AbortSignal);
+    expect(lines).toContainEqual([
+      "warn",
+      "mcp-bridge: trace export failed: The operation was aborted due to timeout",
+    ]);
+  });
+});
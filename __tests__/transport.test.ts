@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
+  getCallTimeout,
+  getMaxTotalTimeout,
   getTransportMode,
   resolveEnvVars,
   sanitizeToolName,
@@ -21,7 +23,8 @@ describe("transport and config helpers", () => {
   it("resolveEnvVars resolves ${VAR} patterns", () => {
     process.env.TEST_MCP_TOKEN = "abc123";
     expect(resolveEnvVars("Bearer ${TEST_MCP_TOKEN}")).toBe("Bearer abc123");
-    expect(resolveEnvVars("${MISSING_ENV}")).toBe("");
+    expect(() => resolveEnvVars("${MISSING_ENV}")).toThrow("MISSING_ENV is not set");
+    expect(resolveEnvVars("${MISSING_ENV:-}")).toBe("");
   });
 
   it("transport defaults to auto", () => {
@@ -29,6 +32,28 @@ describe("transport and config helpers", () => {
     expect(getTransportMode(cfg)).toBe("auto");
   });
 
+  it("per-tool callTimeoutMs overrides the server default", () => {
+    const cfg: ServerConfig = {
+      command: "srv",
+      callTimeoutMs: 5000,
+      tools: { build: { callTimeoutMs: 600000 } },
+    };
+    expect(getCallTimeout(cfg, "build")).toBe(600000);
+    expect(getCallTimeout(cfg, "lint")).toBe(5000);
+    expect(getCallTimeout({ command: "srv" }, "lint")).toBeUndefined();
+  });
+
+  it("per-tool maxTotalTimeoutMs overrides the server cap", () => {
+    const cfg: ServerConfig = {
+      command: "srv",
+      maxTotalTimeoutMs: 600000,
+      tools: { index: { maxTotalTimeoutMs: 3600000 } },
+    };
+    expect(getMaxTotalTimeout(cfg, "index")).toBe(3600000);
+    expect(getMaxTotalTimeout(cfg, "lint")).toBe(600000);
+    expect(getMaxTotalTimeout({ command: "srv" }, "lint")).toBeUndefined();
+  });
+
   it("enabled: false skips server", () => {
     const servers: Record<string, ServerConfig> = {
       enabledOne: { command: "foo" },
@@ -0,0 +1,85 @@
+import * as fs from "node:fs";
+import { describe, expect, it } from "vitest";
+import { createReadResultTool, limitResultText, ResultStore, truncateText } from "../truncate";
+
+const text = "0123456789".repeat(10);
+
+describe("truncateText", () => {
+  it("keeps short text unchanged", () => {
+    expect(truncateText("abc", 10)).toEqual({ text: "abc", omitted: 0 });
+  });
+
+  it("supports head, tail and head+tail", () => {
+    expect(truncateText(text, 10, "head").text).toBe("0123456789\n[… 90 chars omitted]");
+    expect(truncateText(text, 10, "tail").text).toBe("[… 90 chars omitted]\n0123456789");
+    expect(truncateText(text, 10, "head+tail").text).toBe("01234\n[… 90 chars omitted …]\n56789");
+  });
+});
+
+describe("limitResultText", () => {
+  it("stores the full payload and pages through it", async () => {
+    const store = new ResultStore();
+    const result = limitResultText(
+      {
+        content: [
+          { type: "text" as const, text },
+          { type: "image" as const, data: "aGk=", mimeType: "image/png" },
+        ],
+        isError: false,
+      },
+      { maxChars: 20, strategy: "head", store, label: "logs/tail" }
+    );
+
+    expect(result.content).toHaveLength(2);
+    expect(result.content[1].type).toBe("image");
+    const { id, totalChars } = (result.details as any).truncated;
+    expect(totalChars).toBe(100);
+    expect((result.content[0] as any).text).toContain(`mcp_bridge_read_result with id "${id}"`);
+
+    const tool = createReadResultTool(store, 30);
+    const page = await tool.execute("call-1", { id, offset: 90 });
+    expect(page.content[0].text).toBe("[logs/tail: chars 90–100 of 100. End of result.]\n0123456789");
+
+    const first = await tool.execute("call-2", { id });
+    expect(first.content[0].text).toContain("chars 0–30 of 100. Next offset: 30.");
+
+    const capped = await tool.execute("call-4", { id, length: 1_000_000 });
+    expect(capped.content[0].text).toContain("chars 0–30 of 100. Next offset: 30.");
+
+    expect((await tool.execute("call-3", { id: "r_missing" })).isError).toBe(true);
+  });
+
+  it("leaves results within the limit untouched", () => {
+    const result = { content: [{ type: "text" as const, text: "short" }], isError: false };
+    expect(limitResultText(result, { maxChars: 100, store: new ResultStore(), label: "x" })).toBe(result);
+  });
+});
+
+describe("ResultStore", () => {
+  it("evicts the oldest entries", () => {
+    const store = new ResultStore("memory", 2);
+    const a = store.put("a", "aaa");
+    store.put("b", "bbb");
+    store.put("c", "ccc");
+    expect(store.read(a.id, 0, 10)).toBeNull();
+  });
+
+  it("reads results back only for their owner", () => {
+    const store = new ResultStore();
+    const { id } = store.put("a", "aaa", "alice");
+    expect(store.read(id, 0, 10, "bob")).toBeNull();
+    expect(store.read(id, 0, 10)).toBeNull();
+    expect(store.read(id, 0, 10, "alice")).toEqual({ label: "a", text: "aaa", total: 3 });
+  });
+
+  it("spills payloads to files and removes them on clear", () => {
+    const store = new ResultStore("file");
+    const { id, file } = store.put("big", text);
+    expect(fs.readFileSync(file!, "utf-8")).toBe(text);
+    expect(store.read(id, 10, 5)).toEqual({ label: "big", text: "01234", total: 100 });
+
+    store.clear();
+    expect(fs.existsSync(file!)).toBe(false);
+    expect(store.read(id, 0, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { compileArgValidator, removeUnknownKeys } from "../validate";
+
+const schema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    count: { type: "integer", minimum: 1 },
+    draft: { type: "boolean" },
+    state: { enum: ["open", "closed"] },
+    labels: { type: "array", items: { type: "string" } },
+  },
+  required: ["title"],
+};
+
+describe("compileArgValidator", () => {
+  it("accepts valid arguments", () => {
+    const validate = compileArgValidator(schema)!;
+    expect(validate({ title: "Bug", count: 2, labels: ["a"] })).toEqual({
+      valid: true,
+      args: { title: "Bug", count: 2, labels: ["a"] },
+      removed: [],
+    });
+  });
+
+  it("reports every offending path", () => {
+    const validate = compileArgValidator(schema)!;
+    const result = validate({ count: "2", state: "merged", labels: [1] });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual([
+      { path: "/title", message: "is required" },
+      { path: "/count", message: "must be integer" },
+      { path: "/state", message: 'must be one of "open", "closed"' },
+      { path: "/labels/0", message: "must be string" },
+    ]);
+  });
+
+  it("coerces numeric and boolean strings when enabled", () => {
+    const validate = compileArgValidator(schema, { coerceTypes: true })!;
+    const params = { title: "Bug", count: "3", draft: "true" };
+    const result = validate(params);
+
+    expect(result).toMatchObject({ valid: true, args: { title: "Bug", count: 3, draft: true } });
+    expect(params.count).toBe("3");
+  });
+
+  it("rejects undeclared keys on closed schemas unless removeUnknown is set", () => {
+    const closed = { ...schema, additionalProperties: false };
+    const strict = compileArgValidator(closed)!;
+    expect(strict({ title: "Bug", assignee: "me" })).toEqual({
+      valid: false,
+      errors: [{ path: "/assignee", message: "is not an allowed property" }],
+    });
+
+    const lenient = compileArgValidator(closed, { removeUnknown: true })!;
+    expect(lenient({ title: "Bug", assignee: "me" })).toEqual({
+      valid: true,
+      args: { title: "Bug" },
+      removed: ["/assignee"],
+    });
+  });
+
+  it("supports draft 2020-12 schemas with $defs", () => {
+    const validate = compileArgValidator({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: { filter: { $ref: "#/$defs/Filter" } },
+      $defs: { Filter: { type: "object", properties: { q: { type: "string" } } } },
+    })!;
+    expect(validate({ filter: { q: 1 } })).toMatchObject({
+      valid: false,
+      errors: [{ path: "/filter/q", message: "must be string" }],
+    });
+  });
+
+  it("returns null when disabled or the schema does not compile", () => {
+    expect(compileArgValidator(schema, { enabled: false })).toBeNull();
+    expect(compileArgValidator({ type: "object", properties: { a: { $ref: "#/nope" } } })).toBeNull();
+  });
+});
+
+describe("removeUnknownKeys", () => {
+  it("keeps keys where the schema allows extra properties", () => {
+    const value = { meta: { any: 1 }, nested: { a: 1, b: 2 } };
+    const removed = removeUnknownKeys(value, {
+      type: "object",
+      properties: {
+        meta: { type: "object", properties: {}, additionalProperties: true },
+        nested: { type: "object", properties: { a: { type: "number" } } },
+      },
+    });
+
+    expect(removed).toEqual(["/nested/b"]);
+    expect(value).toEqual({ meta: { any: 1 }, nested: { a: 1 } });
+  });
+});
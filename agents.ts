@@ -0,0 +1,111 @@
+/**
+ * Per-agent server scoping and credentials.
+ *
+ * A server with `allowAgents` and/or `allowTags` is only offered to matching
+ * agents; its tools are registered as factories, so the host never hands
+ * them to other agents. `agentOverrides` swaps `env`/`headers` per agent
+ * (e.g. a different API token); each distinct credential set (and, for
+ * servers with `${workspace}` roots, each workspace) gets its own pooled
+ * connection, keyed `<server>#<hash>`.
+ */
+
+import { createHash } from "node:crypto";
+import type { PluginConfig, ServerConfig } from "./types.js";
+
+// ---- Types ----
+
+export interface AgentCredentials {
+  env?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+export interface AgentConfig {
+  /** Tags matched against a server's `allowTags`. */
+  tags?: string[];
+}
+
+/** What the host passes to tool factories (subset used here). */
+export interface AgentToolContext {
+  agentId?: string;
+  workspaceDir?: string;
+}
+
+// ---- Scoping ----
+
+/** Server tools need per-agent registration. */
+export function isScopedServer(serverConfig: ServerConfig): boolean {
+  return Boolean(serverConfig.allowAgents || serverConfig.allowTags || serverConfig.agentOverrides);
+}
+
+/**
+ * Tags of an agent: plugin `agents.<id>.tags` plus `tags` on the host's
+ * `agents.list` entry, when it has one.
+ */
+export function getAgentTags(
+  config: PluginConfig,
+  hostConfig: { agents?: { list?: Array<{ id?: string; tags?: unknown }> } } | undefined,
+  agentId: string | undefined
+): string[] {
+  if (!agentId) return [];
+  const hostEntry = hostConfig?.agents?.list?.find((a) => a?.id === agentId);
+  const hostTags = Array.isArray(hostEntry?.tags)
+    ? hostEntry.tags.filter((t): t is string => typeof t === "string")
+    : [];
+  return [...new Set([...(config.agents?.[agentId]?.tags ?? []), ...hostTags])];
+}
+
+/** Unscoped servers allow everyone; scoped ones need a matching id or tag. */
+export function isAgentAllowed(
+  serverConfig: ServerConfig,
+  agentId: string | undefined,
+  agentTags: string[] = []
+): boolean {
+  const { allowAgents, allowTags } = serverConfig;
+  if (!allowAgents && !allowTags) return true;
+  if (!agentId) return false;
+  if (allowAgents?.includes(agentId) || allowAgents?.includes("*")) return true;
+  return agentTags.some((tag) => allowTags?.includes(tag));
+}
+
+// ---- Credentials ----
+
+/**
+ * Connection key and effective config for an agent. Agents without
+ * overrides share the server's default connection (key = server name).
+ * `workspace` is given for servers whose roots depend on it; each workspace
+ * then gets its own connection, so roots never leak between agents.
+ */
+export function resolveAgentServer(
+  serverName: string,
+  serverConfig: ServerConfig,
+  agentId: string | undefined,
+  workspace?: string
+): { key: string; config: ServerConfig } {
+  const overrides = agentId ? serverConfig.agentOverrides?.[agentId] : undefined;
+  const hasCredentials = Boolean(overrides?.env || overrides?.headers);
+  if (!hasCredentials && !workspace) {
+    return { key: serverName, config: serverConfig };
+  }
+
+  // Keyed by the credential set (unresolved) and workspace, so agents sharing both share a connection
+  const hash = createHash("sha256")
+    .update(
+      JSON.stringify({
+        env: overrides?.env ?? {},
+        headers: overrides?.headers ?? {},
+        ...(workspace ? { workspace } : {}),
+      })
+    )
+    .digest("hex")
+    .slice(0, 12);
+  return {
+    key: `${serverName}#${hash}`,
+    config: hasCredentials
+      ? {
+          ...serverConfig,
+          env: { ...serverConfig.env, ...overrides!.env },
+          headers: { ...serverConfig.headers, ...overrides!.headers },
+        }
+      : serverConfig,
+  };
+}
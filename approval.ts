@@ -0,0 +1,213 @@
+/**
+ * Approval policy for bridged tools, driven by MCP tool annotations.
+ *
+ * Each tool resolves to `allow`, `confirm` or `deny`: a per-tool override,
+ * else the server's `approval`, else `confirm` for tools whose annotations make
+ * them destructive under the spec defaults (see `isDestructive`) and `allow`
+ * for the rest, including tools without annotations.
+ * Confirmation goes through the host's approval hook when it has one;
+ * otherwise the call is parked under a one-time token and only runs once the
+ * agent passes that token to `mcp_bridge_confirm` after asking the user.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { ToolAnnotations } from "./cache.js";
+import type { ServerConfig } from "./types.js";
+
+// ---- Types ----
+
+export type ApprovalPolicy = "allow" | "confirm" | "deny";
+
+export interface ApprovalRequest {
+  server: string;
+  tool: string;
+  agentTool: string;
+  /** One-line description of the call for the approver. */
+  summary: string;
+  params: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+  signal?: AbortSignal;
+}
+
+/** Host approval hook; resolves to the user's decision. */
+export type ApprovalHook = (request: ApprovalRequest) => Promise<boolean | { approved: boolean }>;
+
+interface PendingCall<T> {
+  label: string;
+  /** Agent that made the call; only it can confirm. */
+  owner: string;
+  expiresAt: number;
+  run: (signal?: AbortSignal, onUpdate?: any) => Promise<T>;
+}
+
+export const CONFIRM_TOOL = "mcp_bridge_confirm";
+
+// How long a confirmation token stays valid
+const CONFIRM_TTL_MS = 10 * 60 * 1000;
+// Pending calls kept before the oldest is dropped
+const MAX_PENDING_CALLS = 50;
+// Longest argument preview shown to the approver
+const MAX_SUMMARY_ARGS_CHARS = 500;
+
+// ---- Policy ----
+
+/**
+ * Destructive under the spec defaults: an omitted `readOnlyHint` means false,
+ * and a tool that is not read-only defaults to `destructiveHint: true`. So
+ * `{ openWorldHint: true }` is destructive unless it sets `destructiveHint:
+ * false`. Tools that report no annotations at all are not treated as destructive.
+ */
+export function isDestructive(annotations?: ToolAnnotations): boolean {
+  if (!annotations || annotations.readOnlyHint === true) return false;
+  return annotations.destructiveHint ?? true;
+}
+
+/** Safe to send twice: read-only or declared idempotent. */
+export function isIdempotent(annotations?: ToolAnnotations): boolean {
+  return annotations?.readOnlyHint === true || annotations?.idempotentHint === true;
+}
+
+export function getApprovalPolicy(
+  serverConfig: ServerConfig,
+  mcpToolName: string,
+  annotations?: ToolAnnotations
+): ApprovalPolicy {
+  return (
+    serverConfig.tools?.[mcpToolName]?.approval ??
+    serverConfig.approval ??
+    (isDestructive(annotations) ? "confirm" : "allow")
+  );
+}
+
+export function describeCall(server: string, tool: string, params: Record<string, unknown>): string {
+  const args = JSON.stringify(params ?? {});
+  const preview =
+    args.length > MAX_SUMMARY_ARGS_CHARS ? `${args.slice(0, MAX_SUMMARY_ARGS_CHARS)}…` : args;
+  return `${server}/${tool} ${preview}`;
+}
+
+/** Ask the host; `undefined` when the hook is missing or unusable. */
+export async function requestHostApproval(
+  hook: ApprovalHook | undefined,
+  request: ApprovalRequest
+): Promise<boolean | undefined> {
+  if (typeof hook !== "function") return undefined;
+  const decision = await hook(request);
+  return typeof decision === "boolean" ? decision : decision?.approved === true;
+}
+
+// ---- Results ----
+
+export function deniedResult(serverName: string, mcpToolName: string, reason: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `MCP call not allowed (${serverName}/${mcpToolName}): ${reason}. The call was not sent.`,
+      },
+    ],
+    details: { error: "denied", server: serverName, tool: mcpToolName },
+    isError: true,
+  };
+}
+
+export function confirmationRequiredResult(
+  serverName: string,
+  mcpToolName: string,
+  summary: string,
+  token: string
+) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: [
+          `Confirmation required: ${serverName}/${mcpToolName} may make destructive changes. The call was not sent.`,
+          `Call: ${summary}`,
+          `Show this call to the user and ask for approval. Only if they approve, call ${CONFIRM_TOOL} with token "${token}" (valid for ${Math.round(CONFIRM_TTL_MS / 60000)} minutes). Do not confirm on your own.`,
+        ].join("\n"),
+      },
+    ],
+    details: { error: "confirmation_required", server: serverName, tool: mcpToolName, token },
+    isError: true,
+  };
+}
+
+// ---- Pending confirmations ----
+
+/** Calls parked until the agent confirms them; tokens are single use. */
+export class ConfirmationStore<T = unknown> {
+  private readonly pending = new Map<string, PendingCall<T>>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  add(label: string, run: PendingCall<T>["run"], owner = ""): string {
+    this.prune();
+    if (this.pending.size >= MAX_PENDING_CALLS) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest !== undefined) this.pending.delete(oldest);
+    }
+    const token = `c_${randomBytes(6).toString("hex")}`;
+    this.pending.set(token, { label, owner, expiresAt: this.now() + CONFIRM_TTL_MS, run });
+    return token;
+  }
+
+  /** The pending call, if `owner` made it; a token from another agent stays pending. */
+  take(token: string, owner = ""): PendingCall<T> | undefined {
+    this.prune();
+    const call = this.pending.get(token);
+    if (!call || call.owner !== owner) return undefined;
+    this.pending.delete(token);
+    return call;
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+
+  private prune(): void {
+    for (const [token, call] of this.pending) {
+      if (call.expiresAt <= this.now()) this.pending.delete(token);
+    }
+  }
+}
+
+/** The confirm tool for one agent; it only redeems that agent's tokens. */
+export function createConfirmTool<T extends { content: unknown[] }>(
+  store: ConfirmationStore<T>,
+  agentId?: string
+) {
+  return {
+    name: CONFIRM_TOOL,
+    description:
+      "Run an MCP tool call that required confirmation. Only call this after the user has explicitly approved the call shown in the confirmation request.",
+    parameters: {
+      type: "object",
+      properties: {
+        token: { type: "string", description: "Token from the confirmation request" },
+      },
+      required: ["token"],
+    },
+    async execute(
+      _toolCallId: string,
+      params: Record<string, unknown>,
+      signal?: AbortSignal,
+      onUpdate?: unknown
+    ) {
+      const token = typeof params?.token === "string" ? params.token : "";
+      const pending = store.take(token, agentId ?? "");
+      if (!pending) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Unknown, used or expired confirmation token '${token}'. Call the original tool again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      return pending.run(signal, onUpdate);
+    },
+  };
+}
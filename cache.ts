@@ -0,0 +1,301 @@
+/**
+ * Tool cache (.mcp-tools-cache.json) — format, migration and diffing.
+ *
+ * Shared by the plugin (load at registration, background refresh,
+ * list_changed updates) and the discovery CLI.
+ *
+ * Version history:
+ * - v1: name/description/inputSchema per tool, `discoveredAt` per server
+ * - v2: adds server info, protocol version, capabilities, outputSchema,
+ *       tool annotations, a per-tool schema hash and the config fingerprint
+ *       that produced each entry
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import type { CachedPrompt } from "./prompts.js";
+import type { CachedResource, CachedResourceTemplate } from "./resources.js";
+import type { ServerConfig } from "./types.js";
+
+export const CACHE_VERSION = 2;
+export const CACHE_FILE = ".mcp-tools-cache.json";
+
+// ---- Types ----
+
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface CachedTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+  /** Hash of the schemas, title, description and annotations, used to detect changes. */
+  schemaHash: string;
+}
+
+export interface CacheEntry {
+  server: string;
+  serverInfo?: { name: string; version: string };
+  protocolVersion?: string;
+  capabilities?: {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+    prompts?: { listChanged?: boolean };
+    [key: string]: unknown;
+  };
+  /** Fingerprint of the server config that produced this entry. */
+  configFingerprint?: string;
+  tools: CachedTool[];
+  resources?: CachedResource[];
+  resourceTemplates?: CachedResourceTemplate[];
+  prompts?: CachedPrompt[];
+  discoveredAt: string;
+}
+
+export interface Cache {
+  version: typeof CACHE_VERSION;
+  servers: CacheEntry[];
+}
+
+export interface CacheDiff {
+  server: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// ---- Hashing ----
+
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value as Record<string, unknown>).sort();
+    return `{${keys
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function shortHash(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Hash everything the registered tool is built from: schemas, plus title,
+ * description and annotations (which decide the approval policy and whether
+ * calls are retried).
+ */
+export function hashToolSchema(tool: {
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+}): string {
+  return shortHash({
+    input: tool.inputSchema ?? null,
+    output: tool.outputSchema ?? null,
+    title: tool.title ?? null,
+    description: tool.description ?? null,
+    annotations: tool.annotations ?? null,
+  });
+}
+
+/**
+ * Fingerprint the parts of a server config that decide which server we talk
+ * to. Values are hashed unresolved, so rotating a secret in the environment
+ * does not count as a config change.
+ */
+export function configFingerprint(config: ServerConfig): string {
+  return shortHash({
+    command: config.command ?? null,
+    args: config.args ?? [],
+    env: config.env ?? {},
+    url: config.url ?? null,
+    headers: config.headers ?? {},
+    transport: config.transport ?? null,
+  });
+}
+
+/** Convert a `tools/list` entry into its cached form. */
+export function toCachedTool(tool: {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: unknown;
+  outputSchema?: unknown;
+  annotations?: ToolAnnotations;
+}): CachedTool {
+  const cached: CachedTool = {
+    name: tool.name,
+    ...(tool.title ? { title: tool.title } : {}),
+    description: tool.description,
+    inputSchema: tool.inputSchema as Record<string, unknown> | undefined,
+    ...(tool.outputSchema
+      ? { outputSchema: tool.outputSchema as Record<string, unknown> }
+      : {}),
+    ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    schemaHash: "",
+  };
+  cached.schemaHash = hashToolSchema(cached);
+  return cached;
+}
+
+// ---- Load / migrate / write ----
+
+/** Upgrade a parsed cache file to the current version, or null if unusable. */
+export function migrateCache(raw: any): Cache | null {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.servers)) return null;
+
+  if (raw.version === CACHE_VERSION) {
+    return raw as Cache;
+  }
+
+  if (raw.version === 1) {
+    return {
+      version: CACHE_VERSION,
+      servers: raw.servers.map((entry: any): CacheEntry => {
+        const capabilities: CacheEntry["capabilities"] = { tools: {} };
+        if (entry.resources || entry.resourceTemplates) {
+          capabilities.resources = { subscribe: entry.resourceSubscribe === true };
+        }
+        if (entry.prompts) {
+          capabilities.prompts = {};
+        }
+
+        return {
+          server: entry.server,
+          capabilities,
+          tools: (entry.tools ?? []).map((t: any) => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.inputSchema,
+            schemaHash: hashToolSchema(t),
+          })),
+          ...(entry.resources ? { resources: entry.resources } : {}),
+          ...(entry.resourceTemplates ? { resourceTemplates: entry.resourceTemplates } : {}),
+          ...(entry.prompts ? { prompts: entry.prompts } : {}),
+          discoveredAt: entry.discoveredAt,
+        };
+      }),
+    };
+  }
+
+  return null;
+}
+
+export function loadCache(cachePath: string): Cache | null {
+  try {
+    const raw = JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+    return migrateCache(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the cache atomically (temp file + rename) so a concurrent plugin
+ * load never sees a half-written file.
+ */
+export function writeCache(cachePath: string, cache: Cache): void {
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(cache, null, 2) + "\n");
+  fs.renameSync(tmpPath, cachePath);
+}
+
+/**
+ * Update one server's tools in the cache file, keeping everything else as it
+ * is on disk: a background refresh may have rewritten the file since load,
+ * and the in-memory cache lacks servers that were never discovered.
+ */
+export function writeCacheEntry(cachePath: string, entry: CacheEntry): Cache {
+  const cache = loadCache(cachePath) ?? { version: CACHE_VERSION, servers: [] };
+  const index = cache.servers.findIndex((e) => e.server === entry.server);
+  if (index >= 0) {
+    cache.servers[index] = {
+      ...cache.servers[index],
+      tools: entry.tools,
+      discoveredAt: entry.discoveredAt,
+    };
+  } else {
+    cache.servers.push(entry);
+  }
+  writeCache(cachePath, cache);
+  return cache;
+}
+
+// ---- Diff ----
+
+/**
+ * Compare two caches tool by tool. Servers only present on one side report
+ * all of their tools as added/removed; servers without changes are omitted.
+ */
+export function diffCache(
+  previous: { servers: CacheEntry[] } | null,
+  next: { servers: CacheEntry[] }
+): CacheDiff[] {
+  const before = new Map((previous?.servers ?? []).map((e) => [e.server, e]));
+  const after = new Map(next.servers.map((e) => [e.server, e]));
+  const diffs: CacheDiff[] = [];
+
+  for (const server of new Set([...before.keys(), ...after.keys()])) {
+    const oldTools = new Map((before.get(server)?.tools ?? []).map((t) => [t.name, t]));
+    const newTools = new Map((after.get(server)?.tools ?? []).map((t) => [t.name, t]));
+    const diff: CacheDiff = { server, added: [], removed: [], changed: [] };
+
+    for (const [name, tool] of newTools) {
+      const old = oldTools.get(name);
+      if (!old) {
+        diff.added.push(name);
+      } else if (old.schemaHash !== tool.schemaHash) {
+        diff.changed.push(name);
+      }
+    }
+    for (const name of oldTools.keys()) {
+      if (!newTools.has(name)) diff.removed.push(name);
+    }
+
+    if (diff.added.length + diff.removed.length + diff.changed.length > 0) {
+      diffs.push(diff);
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Whether anything besides discovery timestamps differs: tools, prompts,
+ * resources, capabilities, server info or config fingerprints. `diffCache`
+ * only reports tools, so this decides whether the file needs rewriting.
+ */
+export function isCacheChanged(
+  previous: { servers: CacheEntry[] } | null,
+  next: { servers: CacheEntry[] }
+): boolean {
+  const comparable = (cache: { servers: CacheEntry[] } | null) =>
+    stableStringify(
+      [...(cache?.servers ?? [])]
+        .sort((a, b) => a.server.localeCompare(b.server))
+        .map(({ discoveredAt: _discoveredAt, ...rest }) => rest)
+    );
+  return comparable(previous) !== comparable(next);
+}
+
+export function formatCacheDiff(diff: CacheDiff): string {
+  const parts: string[] = [];
+  if (diff.added.length > 0) parts.push(`added ${diff.added.join(", ")}`);
+  if (diff.removed.length > 0) parts.push(`removed ${diff.removed.join(", ")}`);
+  if (diff.changed.length > 0) parts.push(`changed ${diff.changed.join(", ")}`);
+  return `${diff.server}: ${parts.join("; ")}`;
+}
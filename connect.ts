@@ -0,0 +1,187 @@
+/**
+ * MCP connection helpers shared by the plugin and the discovery CLI.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js";
+import { createOAuthProvider, OAuthRequiredError, TokenStore } from "./oauth.js";
+import { resolveSecrets, type ResolveOptions } from "./secrets.js";
+import type { Logger, ServerConfig, TransportMode } from "./types.js";
+
+/**
+ * Expand `${VAR}`, `${env:VAR}`, `${VAR:-default}` and `${file:/path}`
+ * references; throws if a required variable is unset (see secrets.ts).
+ */
+export function resolveEnvVars(value: string, context?: string, options?: ResolveOptions): string {
+  return resolveSecrets(value, context, options);
+}
+
+// Negotiated protocol version per client. The SDK only hands it to the
+// transport (via setProtocolVersion), so we intercept it there.
+const protocolVersions = new WeakMap<Client, string>();
+
+function trackProtocolVersion(client: Client, transport: any): void {
+  const original = transport.setProtocolVersion?.bind(transport);
+  transport.setProtocolVersion = (version: string) => {
+    protocolVersions.set(client, version);
+    original?.(version);
+  };
+}
+
+export function getProtocolVersion(client: Client): string | undefined {
+  return protocolVersions.get(client);
+}
+
+// Transport each client ended up on ("auto" resolves to streamable-http or sse)
+const connectedTransports = new WeakMap<Client, string>();
+
+export function getConnectedTransport(client: Client): string | undefined {
+  return connectedTransports.get(client);
+}
+
+export function getTransportMode(serverConfig: ServerConfig): TransportMode {
+  return serverConfig.transport ?? "auto";
+}
+
+/**
+ * Timeout for a `tools/call`: per-tool override, then server default.
+ * Undefined means the SDK default (60s).
+ */
+export function getCallTimeout(
+  serverConfig: ServerConfig,
+  mcpToolName: string
+): number | undefined {
+  return serverConfig.tools?.[mcpToolName]?.callTimeoutMs ?? serverConfig.callTimeoutMs;
+}
+
+/** Hard cap for a call whose timeout is reset by progress notifications. */
+export function getMaxTotalTimeout(
+  serverConfig: ServerConfig,
+  mcpToolName: string
+): number | undefined {
+  return serverConfig.tools?.[mcpToolName]?.maxTotalTimeoutMs ?? serverConfig.maxTotalTimeoutMs;
+}
+
+function resolveHeaders(serverName: string, headers?: Record<string, string>): Record<string, string> {
+  const resolvedHeaders: Record<string, string> = {};
+  if (!headers) {
+    return resolvedHeaders;
+  }
+
+  for (const [k, v] of Object.entries(headers)) {
+    resolvedHeaders[k] = resolveEnvVars(v, `${serverName} headers.${k}`);
+  }
+
+  return resolvedHeaders;
+}
+
+export async function connectUrlTransport(
+  client: Client,
+  serverName: string,
+  serverConfig: ServerConfig,
+  logger: Logger,
+  tokenStore?: TokenStore
+): Promise<void> {
+  const resolvedUrl = resolveEnvVars(serverConfig.url ?? "", `${serverName} url`, { secret: false });
+  const resolvedHeaders = resolveHeaders(serverName, serverConfig.headers);
+  const mode = getTransportMode(serverConfig);
+
+  // Tokens come from `discover.ts auth`; the transports refresh them as needed
+  const authProvider = createOAuthProvider(serverName, resolvedUrl, serverConfig, tokenStore);
+  if (authProvider && !authProvider.tokens()) {
+    throw new OAuthRequiredError(serverName);
+  }
+
+  const connectStreamable = async (): Promise<void> => {
+    const { StreamableHTTPClientTransport } = await import(
+      "@modelcontextprotocol/sdk/client/streamableHttp.js"
+    );
+
+    const transport = new StreamableHTTPClientTransport(new URL(resolvedUrl), {
+      requestInit: { headers: resolvedHeaders },
+      authProvider,
+    });
+
+    trackProtocolVersion(client, transport);
+    await client.connect(transport, { timeout: serverConfig.connectTimeoutMs });
+    connectedTransports.set(client, "streamable-http");
+    logger.info(`mcp-bridge: ${serverName} connected via streamable-http`);
+  };
+
+  const connectSse = async (): Promise<void> => {
+    const { SSEClientTransport } = await import(
+      "@modelcontextprotocol/sdk/client/sse.js"
+    );
+
+    const transport = new SSEClientTransport(new URL(resolvedUrl), {
+      requestInit: { headers: resolvedHeaders },
+      authProvider,
+    });
+
+    trackProtocolVersion(client, transport);
+    await client.connect(transport, { timeout: serverConfig.connectTimeoutMs });
+    connectedTransports.set(client, "sse");
+    logger.info(`mcp-bridge: ${serverName} connected via sse`);
+  };
+
+  if (mode === "sse") {
+    await connectSse();
+    return;
+  }
+
+  if (mode === "streamable-http") {
+    await connectStreamable();
+    return;
+  }
+
+  try {
+    await connectStreamable();
+  } catch (err: any) {
+    // SSE would fail authorization the same way
+    if (err instanceof OAuthRequiredError) throw err;
+    if (err instanceof UnauthorizedError) throw new OAuthRequiredError(serverName);
+    logger.warn(
+      `mcp-bridge: ${serverName} streamable-http failed (${err?.message ?? String(err)}), falling back to sse`
+    );
+    await connectSse();
+  }
+}
+
+/**
+ * Connect a client to a configured server over stdio (`command`) or
+ * URL transport (`url`).
+ */
+export async function connectClient(
+  client: Client,
+  serverName: string,
+  serverConfig: ServerConfig,
+  logger: Logger
+): Promise<void> {
+  if (serverConfig.command) {
+    const resolvedArgs = (serverConfig.args ?? []).map((arg, i) =>
+      resolveEnvVars(arg, `${serverName} args[${i}]`, { secret: false })
+    );
+    const resolvedEnv: Record<string, string> = {};
+    if (serverConfig.env) {
+      for (const [k, v] of Object.entries(serverConfig.env)) {
+        resolvedEnv[k] = resolveEnvVars(v, `${serverName} env.${k}`);
+      }
+    }
+
+    const transport = new StdioClientTransport({
+      command: resolveEnvVars(serverConfig.command, `${serverName} command`, { secret: false }),
+      args: resolvedArgs,
+      env: { ...process.env, ...resolvedEnv } as Record<string, string>,
+    });
+
+    trackProtocolVersion(client, transport);
+    await client.connect(transport, { timeout: serverConfig.connectTimeoutMs });
+    connectedTransports.set(client, "stdio");
+    logger.info(`mcp-bridge: ${serverName} connected via stdio`);
+  } else if (serverConfig.url) {
+    await connectUrlTransport(client, serverName, serverConfig, logger);
+  } else {
+    throw new Error(`Server ${serverName}: must specify 'command' or 'url'`);
+  }
+}
@@ -4,39 +4,55 @@
  * the schemas to .mcp-tools-cache.json for the plugin to use at load time.
  *
  * Usage: npx tsx discover.ts [--config path/to/config.json]
+ *        npx tsx discover.ts auth <server> [--config path/to/config.json]
+ *        npx tsx discover.ts status [--json] [--offline] [--config path/to/config.json]
  *
  * Default config: reads from the plugin config in openclaw.json,
- * or pass a standalone JSON file with the same "servers" shape.
+ * or pass a standalone JSON file with the plugin config or just the
+ * "servers" shape.
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { pathToFileURL } from "node:url";
+import { CONFIRM_TOOL, getApprovalPolicy } from "./approval.js";
 import {
-  connectUrlTransport,
-  getTransportMode,
-  resolveEnvVars,
-  type ServerConfig,
-} from "./index.js";
-
-interface CachedTool {
-  name: string;
-  description?: string;
-  inputSchema?: Record<string, unknown>;
-}
-
-interface CacheEntry {
-  server: string;
-  tools: CachedTool[];
-  discoveredAt: string;
-}
+  CACHE_FILE,
+  CACHE_VERSION,
+  configFingerprint,
+  diffCache,
+  formatCacheDiff,
+  loadCache,
+  toCachedTool,
+  writeCache,
+  type Cache,
+  type CacheDiff,
+  type CacheEntry,
+} from "./cache.js";
+import { connectClient, getProtocolVersion, resolveEnvVars } from "./connect.js";
+import {
+  formatCollision,
+  getAgentToolName,
+  isToolIncluded,
+  listToolNameCandidates,
+  resolveToolNames,
+} from "./naming.js";
+import { getOAuthConfig, runAuthorizationFlow, TokenStore } from "./oauth.js";
+import { ConnectionManager, type ConnectionStats } from "./pool.js";
+import type { CachedPrompt } from "./prompts.js";
+import type { CachedResource, CachedResourceTemplate } from "./resources.js";
+import { DEFAULT_SCHEMA_PROFILE, normalizeSchema, type SchemaProfile } from "./schema.js";
+import { createRedactingLogger, redactSecrets } from "./secrets.js";
+import { buildStatus, formatStatus, STATUS_TOOL } from "./status.js";
+import { READ_RESULT_TOOL } from "./truncate.js";
+import type { Logger, PluginConfig, ServerConfig } from "./types.js";
 
-interface Cache {
-  version: 1;
-  servers: CacheEntry[];
-}
+const consoleLogger: Logger = createRedactingLogger({
+  info: (msg: string) => console.log(`  ${msg}`),
+  warn: (msg: string) => console.warn(`  ${msg}`),
+});
 
 export function getEnabledServers(
   servers: Record<string, ServerConfig>
@@ -44,62 +60,132 @@ export function getEnabledServers(
   return Object.entries(servers).filter(([, cfg]) => cfg.enabled !== false);
 }
 
-async function discoverServer(
+/**
+ * Connect to one server, list its tools, resources and prompts, and return
+ * the cache entry. Output goes to `logger` (console for the CLI, the plugin
+ * logger when refreshing from the gateway).
+ */
+export async function discoverServer(
   serverName: string,
-  config: ServerConfig
+  config: ServerConfig,
+  logger: Logger = consoleLogger,
+  schemaProfile: SchemaProfile = DEFAULT_SCHEMA_PROFILE
 ): Promise<CacheEntry> {
   const client = new Client(
     { name: "mcp-bridge-discover", version: "0.1.0" },
     { capabilities: { tools: {} } }
   );
 
-  let stdioTransport: StdioClientTransport | undefined;
-
   try {
-    if (config.command) {
-      const resolvedArgs = (config.args ?? []).map(resolveEnvVars);
-      const resolvedEnv: Record<string, string> = {};
-      if (config.env) {
-        for (const [k, v] of Object.entries(config.env)) {
-          resolvedEnv[k] = resolveEnvVars(v);
+    await connectClient(client, serverName, config, logger);
+
+    const result = await client.listTools();
+    const tools = (result.tools ?? []).map(toCachedTool);
+
+    const exposed = tools.filter((t) => isToolIncluded(config, t.name));
+    logger.info(
+      `${serverName}: ${tools.length} tool(s) discovered` +
+        (exposed.length < tools.length ? `, ${exposed.length} exposed` : "")
+    );
+    for (const t of tools) {
+      const agentName = isToolIncluded(config, t.name)
+        ? getAgentToolName(serverName, config, t.name)
+        : "(excluded)";
+      const policy = getApprovalPolicy(config, t.name, t.annotations);
+      const flag = policy !== "allow" ? ` [${policy}]` : "";
+      logger.info(
+        `  - ${t.name} → ${agentName}${flag}: ${t.description?.slice(0, 80) ?? "(no description)"}`
+      );
+
+      const profile = config.schemaProfile ?? schemaProfile;
+      for (const change of normalizeSchema(t.inputSchema, profile).changes) {
+        if (change.lossy) {
+          logger.warn(`    ! ${t.name} schema (${profile}): ${change.path} ${change.message}`);
         }
       }
+    }
+
+    const capabilities = client.getServerCapabilities() ?? {};
+    const resourceCaps = capabilities.resources;
+    let resources: CachedResource[] | undefined;
+    let resourceTemplates: CachedResourceTemplate[] | undefined;
+
+    if (resourceCaps) {
+      try {
+        const listed = await client.listResources();
+        resources = listed.resources.map((r) => ({
+          uri: r.uri,
+          name: r.name,
+          description: r.description,
+          mimeType: r.mimeType,
+        }));
+      } catch (err: any) {
+        // A broken resource listing must not cost the server its tools
+        logger.warn(`${serverName}: resources/list failed: ${err?.message ?? String(err)}`);
+        resources = [];
+      }
+
+      try {
+        const listedTemplates = await client.listResourceTemplates();
+        resourceTemplates = listedTemplates.resourceTemplates.map((t) => ({
+          uriTemplate: t.uriTemplate,
+          name: t.name,
+          description: t.description,
+          mimeType: t.mimeType,
+        }));
+      } catch {
+        // templates are optional; older servers reject the method
+        resourceTemplates = [];
+      }
 
-      stdioTransport = new StdioClientTransport({
-        command: resolveEnvVars(config.command),
-        args: resolvedArgs,
-        env: { ...process.env, ...resolvedEnv } as Record<string, string>,
-      });
-
-      await client.connect(stdioTransport);
-      console.log(`  ${serverName}: connected via stdio`);
-    } else if (config.url) {
-      await connectUrlTransport(client, serverName, config, {
-        info: (msg: string) => console.log(`  ${msg}`),
-        warn: (msg: string) => console.warn(`  ${msg}`),
-      });
-      console.log(
-        `  ${serverName}: discovered over URL transport (${getTransportMode(config)})`
+      logger.info(
+        `${serverName}: ${resources.length} resource(s), ${resourceTemplates.length} template(s)`
       );
-    } else {
-      throw new Error(`Server ${serverName}: must specify 'command' or 'url'`);
+      for (const r of resources) {
+        logger.info(`  - ${r.uri}: ${r.description?.slice(0, 80) ?? r.name}`);
+      }
+      for (const t of resourceTemplates) {
+        logger.info(`  - ${t.uriTemplate}: ${t.description?.slice(0, 80) ?? t.name}`);
+      }
     }
 
-    const result = await client.listTools();
-    const tools: CachedTool[] = (result.tools ?? []).map((t) => ({
-      name: t.name,
-      description: t.description,
-      inputSchema: t.inputSchema as Record<string, unknown> | undefined,
-    }));
+    let prompts: CachedPrompt[] | undefined;
 
-    console.log(`  ${serverName}: ${tools.length} tool(s) discovered`);
-    for (const t of tools) {
-      console.log(`    - ${t.name}: ${t.description?.slice(0, 80) ?? "(no description)"}`);
+    if (capabilities.prompts) {
+      try {
+        const listed = await client.listPrompts();
+        prompts = listed.prompts.map((p) => ({
+          name: p.name,
+          description: p.description,
+          arguments: p.arguments?.map((a) => ({
+            name: a.name,
+            description: a.description,
+            required: a.required,
+          })),
+        }));
+      } catch (err: any) {
+        logger.warn(`${serverName}: prompts/list failed: ${err?.message ?? String(err)}`);
+        prompts = [];
+      }
+
+      logger.info(`${serverName}: ${prompts.length} prompt(s)`);
+      for (const p of prompts) {
+        const args = (p.arguments ?? []).map((a) => a.name).join(", ");
+        logger.info(`  - ${p.name}(${args}): ${p.description?.slice(0, 80) ?? "(no description)"}`);
+      }
     }
 
+    const serverInfo = client.getServerVersion();
+
     return {
       server: serverName,
+      ...(serverInfo ? { serverInfo: { name: serverInfo.name, version: serverInfo.version } } : {}),
+      protocolVersion: getProtocolVersion(client),
+      capabilities,
+      configFingerprint: configFingerprint(config),
       tools,
+      ...(resourceCaps ? { resources, resourceTemplates } : {}),
+      ...(prompts ? { prompts } : {}),
       discoveredAt: new Date().toISOString(),
     };
   } finally {
@@ -108,46 +194,177 @@ async function discoverServer(
     } catch {
       // ignore
     }
-    if (stdioTransport) {
-      try {
-        await stdioTransport.close();
-      } catch {
-        // ignore
-      }
-    }
   }
 }
 
-async function main() {
-  // Find config
-  let servers: Record<string, ServerConfig> = {};
+/**
+ * Re-discover every enabled server and merge the results into `previous`.
+ * Servers that fail keep their previous entry, so a flaky server at startup
+ * does not wipe its tools from the cache.
+ */
+export async function refreshCache(
+  servers: Record<string, ServerConfig>,
+  previous: { servers: CacheEntry[] } | null,
+  logger: Logger,
+  schemaProfile?: SchemaProfile
+): Promise<{ cache: Cache; diffs: CacheDiff[]; failed: string[] }> {
+  const previousEntries = new Map((previous?.servers ?? []).map((e) => [e.server, e]));
+  const cache: Cache = { version: CACHE_VERSION, servers: [] };
+  const failed: string[] = [];
+
+  for (const [name, config] of getEnabledServers(servers)) {
+    try {
+      cache.servers.push(await discoverServer(name, config, logger, schemaProfile));
+    } catch (err: any) {
+      failed.push(name);
+      logger.warn(`mcp-bridge: discovery failed for ${name}: ${err?.message ?? String(err)}`);
+      const old = previousEntries.get(name);
+      if (old) cache.servers.push(old);
+    }
+  }
+
+  return { cache, diffs: diffCache(previous, cache), failed };
+}
 
+/**
+ * Read the plugin config from `--config <file>` (either the plugin config
+ * object or a bare servers map), else from openclaw.json. `source` names
+ * where it came from.
+ */
+export function loadPluginConfig(): { config: PluginConfig; source: string } {
   const configArg = process.argv.indexOf("--config");
   if (configArg >= 0 && process.argv[configArg + 1]) {
     const configPath = process.argv[configArg + 1];
     const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
-    servers = raw.servers ?? raw;
-  } else {
-    // Try to read from openclaw.json
-    const openclawPaths = [
-      ...(process.env.OPENCLAW_CONFIG_PATH ? [process.env.OPENCLAW_CONFIG_PATH] : []),
-      path.join(process.env.HOME ?? "", ".openclaw", "openclaw.json"),
-      "openclaw.json",
-    ];
-    for (const p of openclawPaths) {
-      try {
-        const raw = JSON.parse(fs.readFileSync(p, "utf-8"));
-        servers = raw.plugins?.entries?.["mcp-bridge"]?.config?.servers ?? {};
-        if (Object.keys(servers).length > 0) {
-          console.log(`Read config from ${p}`);
-          break;
-        }
-      } catch {
-        // try next
+    return { config: raw.servers ? raw : { servers: raw }, source: path.resolve(configPath) };
+  }
+
+  // Try to read from openclaw.json
+  const openclawPaths = [
+    ...(process.env.OPENCLAW_CONFIG_PATH ? [process.env.OPENCLAW_CONFIG_PATH] : []),
+    path.join(process.env.HOME ?? "", ".openclaw", "openclaw.json"),
+    "openclaw.json",
+  ];
+  for (const p of openclawPaths) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(p, "utf-8"));
+      const config: PluginConfig = raw.plugins?.entries?.["mcp-bridge"]?.config ?? {};
+      if (Object.keys(config.servers ?? {}).length > 0) {
+        return { config, source: `${path.resolve(p)} (plugins.entries.mcp-bridge.config)` };
       }
+    } catch {
+      // try next
     }
   }
 
+  return { config: {}, source: "(none)" };
+}
+
+/** Tool name collisions the plugin would hit when registering this cache. */
+export function findCollisions(cache: { servers: CacheEntry[] }, config: PluginConfig) {
+  const servers = config.servers ?? {};
+  const candidates = cache.servers
+    .filter((entry) => servers[entry.server] && servers[entry.server].enabled !== false)
+    .flatMap((entry) => listToolNameCandidates(entry.server, servers[entry.server], entry));
+
+  return resolveToolNames(candidates, {
+    strategy: config.collisionStrategy,
+    maxLength: config.maxToolNameLength,
+    taken: new Set([CONFIRM_TOOL, READ_RESULT_TOOL, STATUS_TOOL]),
+  }).collisions;
+}
+
+/** Best-effort: open the URL in the default browser. */
+function openBrowser(url: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", "", url]]
+        : ["xdg-open", [url]];
+  try {
+    spawn(command, args, { stdio: "ignore", detached: true }).on("error", () => {}).unref();
+  } catch {
+    // the URL is printed anyway
+  }
+}
+
+async function authMain(serverName: string | undefined) {
+  const servers = loadPluginConfig().config.servers ?? {};
+  const serverConfig = serverName ? servers[serverName] : undefined;
+
+  if (!serverName || !serverConfig) {
+    console.error(`Usage: npx tsx discover.ts auth <server>. Configured servers: ${Object.keys(servers).join(", ") || "(none)"}`);
+    process.exit(1);
+  }
+  if (!serverConfig.url || !getOAuthConfig(serverConfig)) {
+    console.error(`${serverName} is not a URL server with "oauth" configured.`);
+    process.exit(1);
+  }
+
+  const store = new TokenStore();
+  const serverUrl = resolveEnvVars(serverConfig.url, `${serverName} url`, { secret: false });
+  const result = await runAuthorizationFlow(serverName, serverUrl, serverConfig, {
+    store,
+    openUrl: (url) => {
+      console.log(`Open this URL to authorize ${serverName}:\n\n  ${url.href}\n`);
+      openBrowser(url.href);
+      console.log("Waiting for the authorization redirect...");
+    },
+  });
+
+  console.log(
+    result === "already-authorized"
+      ? `${serverName} is already authorized (tokens refreshed). Tokens: ${store.filePath}`
+      : `${serverName} authorized. Tokens saved to ${store.filePath}`
+  );
+}
+
+/**
+ * `status [--json] [--offline]`: cache and config diagnostics plus, unless
+ * offline, a live connection attempt per enabled server.
+ */
+async function statusMain() {
+  const { config, source } = loadPluginConfig();
+  const cachePath = path.join(path.dirname(new URL(import.meta.url).pathname), CACHE_FILE);
+
+  let connections: ConnectionStats[] | undefined;
+  if (!process.argv.includes("--offline")) {
+    const silent: Logger = { info: () => {}, warn: () => {} };
+    const pool = new ConnectionManager({
+      servers: config.servers ?? {},
+      logger: silent,
+      connect: async (name, serverConfig) => {
+        const client = new Client({ name: "mcp-bridge-status", version: "0.1.0" });
+        await connectClient(client, name, serverConfig, silent);
+        return client;
+      },
+    });
+    await Promise.all(
+      getEnabledServers(config.servers ?? {}).map(([name]) => pool.get(name).catch(() => {}))
+    );
+    connections = pool.stats();
+    await pool.stop();
+  }
+
+  const report = buildStatus({ config, configSource: source, cachePath, cache: loadCache(cachePath), connections });
+  const text = process.argv.includes("--json") ? JSON.stringify(report, null, 2) : formatStatus(report);
+  console.log(redactSecrets(text));
+}
+
+async function main() {
+  if (process.argv[2] === "auth") {
+    await authMain(process.argv[3]);
+    return;
+  }
+  if (process.argv[2] === "status") {
+    await statusMain();
+    return;
+  }
+
+  const { config: pluginConfig, source } = loadPluginConfig();
+  const servers = pluginConfig.servers ?? {};
+
   const enabledServers = getEnabledServers(servers);
 
   if (enabledServers.length === 0) {
@@ -155,22 +372,32 @@ async function main() {
     process.exit(1);
   }
 
+  console.log(`Read config from ${source}`);
   console.log(`Discovering tools from ${enabledServers.length} server(s)...\n`);
 
-  const cache: Cache = { version: 1, servers: [] };
+  const cachePath = path.join(path.dirname(new URL(import.meta.url).pathname), CACHE_FILE);
+  const previous = loadCache(cachePath);
 
-  for (const [name, config] of enabledServers) {
-    try {
-      const entry = await discoverServer(name, config);
-      cache.servers.push(entry);
-    } catch (err: any) {
-      console.error(`  ${name}: FAILED — ${err.message}`);
-    }
-  }
+  const { cache, diffs } = await refreshCache(
+    servers,
+    previous,
+    consoleLogger,
+    pluginConfig.schemaProfile
+  );
 
-  const cachePath = path.join(path.dirname(new URL(import.meta.url).pathname), ".mcp-tools-cache.json");
-  fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2) + "\n");
+  writeCache(cachePath, cache);
   console.log(`\nCache written to ${cachePath}`);
+  for (const diff of diffs) {
+    console.log(`  ${formatCacheDiff(diff)}`);
+  }
+
+  const collisions = findCollisions(cache, pluginConfig);
+  if (collisions.length > 0) {
+    console.warn(`\n${collisions.length} tool name collision(s):`);
+    for (const collision of collisions) {
+      console.warn(`  ${formatCollision(collision)}`);
+    }
+  }
   console.log(`Total: ${cache.servers.reduce((n, s) => n + s.tools.length, 0)} tool(s) from ${cache.servers.length} server(s)`);
 }
 
@@ -180,7 +407,7 @@ const isMain =
 
 if (isMain) {
   main().catch((err) => {
-    console.error("Fatal:", err);
+    console.error("Fatal:", redactSecrets(err?.stack ?? String(err)));
     process.exit(1);
   });
 }
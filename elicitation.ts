@@ -0,0 +1,148 @@
+/**
+ * MCP elicitation: servers asking for user input mid-call
+ * (`elicitation/create`).
+ *
+ * Off unless a server sets `elicitation.enabled`. With the host's
+ * `requestUserInput` hook the question goes straight to the user. Without
+ * one (or with `target: "agent"`) the request is declined and the question
+ * is appended to the result of the tool call that triggered it, so the
+ * agent can ask the user and call again with the answer.
+ */
+
+import type {
+  ElicitRequestFormParams,
+  ElicitRequestParams,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RateWindow, type RateLimit } from "./limiter.js";
+import type { Logger } from "./types.js";
+
+// ---- Types ----
+
+export interface ElicitationConfig {
+  /** Let the server ask for input (default: false). */
+  enabled?: boolean;
+  /** Who answers: the user via the host, or the agent (default: "user"). */
+  target?: "user" | "agent";
+  /** Request quota (default: 5 per minute). */
+  rateLimit?: RateLimit;
+}
+
+/** What the host input hook receives. */
+export interface ElicitationRequest {
+  server: string;
+  message: string;
+  mode: "form" | "url";
+  /** Flat JSON Schema of the requested fields (form mode). */
+  requestedSchema?: ElicitRequestFormParams["requestedSchema"];
+  /** Page the user should open (URL mode). */
+  url?: string;
+  signal?: AbortSignal;
+}
+
+/** Host input hook; resolves to the user's answer. */
+export type ElicitationHook = (request: ElicitationRequest) => Promise<ElicitResult>;
+
+export type ElicitationRequestHandler = (
+  params: ElicitRequestParams,
+  connection: string,
+  signal?: AbortSignal
+) => Promise<ElicitResult>;
+
+export const DEFAULT_ELICITATION_RATE_LIMIT: RateLimit = { calls: 5, per: "minute" };
+// Questions kept per connection until a call result picks them up
+const MAX_PENDING_NOTES = 10;
+
+// ---- Agent notes ----
+
+/** Declined questions waiting to be shown to the agent, per connection. */
+export class ElicitationNotes {
+  private readonly notes = new Map<string, string[]>();
+
+  add(connection: string, note: string): void {
+    const list = this.notes.get(connection) ?? [];
+    list.push(note);
+    if (list.length > MAX_PENDING_NOTES) list.shift();
+    this.notes.set(connection, list);
+  }
+
+  take(connection: string): string[] {
+    const list = this.notes.get(connection) ?? [];
+    this.notes.delete(connection);
+    return list;
+  }
+}
+
+export function formatElicitationNote(serverName: string, params: ElicitRequestParams): string {
+  if (params.mode === "url") {
+    return `[${serverName} asked the user to open ${params.url}: "${params.message}". The request was declined because the bridge cannot show it; ask the user to open the link, then call the tool again.]`;
+  }
+
+  const schema = (params as ElicitRequestFormParams).requestedSchema;
+  const required = new Set(schema.required ?? []);
+  const fields = Object.entries(schema.properties ?? {}).map(([name, prop]: [string, any]) => {
+    const details = [prop.type, required.has(name) ? "required" : "optional"].filter(Boolean);
+    const hint = prop.description ?? prop.title;
+    return `- ${name} (${details.join(", ")})${hint ? `: ${hint}` : ""}`;
+  });
+  const intro = `[${serverName} asked for input: "${params.message}". The request was declined because no user prompt is available; ask the user and call the tool again with the answer.`;
+  return `${[intro, ...fields].join("\n")}]`;
+}
+
+/** Result with pending agent notes appended as text. */
+export function appendElicitationNotes<T extends { content: any[] }>(result: T, notes: string[]): T {
+  if (notes.length === 0) return result;
+  return {
+    ...result,
+    content: [...result.content, ...notes.map((text) => ({ type: "text" as const, text }))],
+  };
+}
+
+// ---- Handler ----
+
+/** Handler for one server's elicitation requests, or undefined when disabled. */
+export function createElicitationHandler(options: {
+  serverName: string;
+  config?: ElicitationConfig;
+  hook?: ElicitationHook;
+  notes: ElicitationNotes;
+  logger: Logger;
+  now?: () => number;
+}): ElicitationRequestHandler | undefined {
+  const { serverName, config, hook, notes, logger } = options;
+  if (!config?.enabled) return undefined;
+
+  const rate = new RateWindow(config.rateLimit ?? DEFAULT_ELICITATION_RATE_LIMIT, options.now);
+  const askUser = config.target !== "agent" ? hook : undefined;
+
+  return async (params, connection, signal) => {
+    if (!rate.tryTake()) {
+      logger.warn(`mcp-bridge: ${serverName}: elicitation request declined by the rate limit`);
+      return { action: "decline" };
+    }
+
+    if (askUser) {
+      logger.info(`mcp-bridge: ${serverName} asked the user for input`);
+      try {
+        return await askUser({
+          server: serverName,
+          message: params.message,
+          mode: params.mode === "url" ? "url" : "form",
+          requestedSchema:
+            params.mode === "url" ? undefined : (params as ElicitRequestFormParams).requestedSchema,
+          url: params.mode === "url" ? params.url : undefined,
+          signal,
+        });
+      } catch (err: any) {
+        logger.warn(
+          `mcp-bridge: ${serverName}: user input request failed: ${err?.message ?? String(err)}`
+        );
+        return { action: "cancel" };
+      }
+    }
+
+    logger.info(`mcp-bridge: ${serverName} asked for input; passing the question to the agent`);
+    notes.add(connection, formatElicitationNote(serverName, params));
+    return { action: "decline" };
+  };
+}
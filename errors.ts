@@ -0,0 +1,61 @@
+/**
+ * Agent-facing error results for bridged calls.
+ */
+
+export function timeoutResult(serverName: string, mcpToolName: string, timeoutMs?: number) {
+  const limit = timeoutMs !== undefined ? `${timeoutMs}ms` : "the default timeout";
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `MCP timeout (${serverName}/${mcpToolName}): no response within ${limit}. The request was cancelled on the server.`,
+      },
+    ],
+    details: { error: "timeout", server: serverName, tool: mcpToolName, timeoutMs },
+    isError: true,
+  };
+}
+
+export function cancelledResult(serverName: string, mcpToolName: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `MCP call cancelled (${serverName}/${mcpToolName}): the request was aborted before the server responded.`,
+      },
+    ],
+    details: { error: "cancelled", server: serverName, tool: mcpToolName },
+    isError: true,
+  };
+}
+
+export function queueTimeoutResult(serverName: string, mcpToolName: string, waitedMs: number) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `MCP server busy (${serverName}/${mcpToolName}): no free slot after ${waitedMs}ms in the queue. The call was not sent; try again later.`,
+      },
+    ],
+    details: { error: "queue_timeout", server: serverName, tool: mcpToolName, waitedMs },
+    isError: true,
+  };
+}
+
+export function invalidArgumentsResult(
+  serverName: string,
+  mcpToolName: string,
+  errors: Array<{ path: string; message: string }>
+) {
+  const lines = errors.map((e) => `- ${e.path}: ${e.message}`).join("\n");
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Invalid arguments for ${serverName}/${mcpToolName} (not sent to the server):\n${lines}\nFix these arguments and call the tool again.`,
+      },
+    ],
+    details: { error: "invalid_arguments", server: serverName, tool: mcpToolName, errors },
+    isError: true,
+  };
+}
@@ -5,365 +5,1018 @@
  * - Tool schemas are loaded from a pre-discovered cache (.mcp-tools-cache.json)
  * - Tools are registered synchronously during plugin load (required by OpenClaw)
  * - MCP server connections are established lazily on first tool call
- * - Run `npx tsx discover.ts` to refresh the cache after adding/changing servers
+ * - On service start, servers are re-discovered in the background and the
+ *   cache is rewritten when tools changed (picked up on the next restart)
+ * - Run `npx tsx discover.ts` to refresh the cache manually
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import * as fs from "node:fs";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  type CompatibilityCallToolResult,
+  type Root,
+} from "@modelcontextprotocol/sdk/types.js";
 import * as path from "node:path";
+import {
+  getAgentTags,
+  isAgentAllowed,
+  resolveAgentServer,
+  type AgentToolContext,
+} from "./agents.js";
+import {
+  confirmationRequiredResult,
+  ConfirmationStore,
+  CONFIRM_TOOL,
+  createConfirmTool,
+  deniedResult,
+  describeCall,
+  getApprovalPolicy,
+  isIdempotent,
+  requestHostApproval,
+} from "./approval.js";
+import {
+  CACHE_FILE,
+  CACHE_VERSION,
+  configFingerprint,
+  diffCache,
+  formatCacheDiff,
+  isCacheChanged,
+  loadCache,
+  toCachedTool,
+  writeCache,
+  writeCacheEntry,
+  type Cache,
+  type CachedTool,
+} from "./cache.js";
+import {
+  connectClient,
+  getCallTimeout,
+  getConnectedTransport,
+  getMaxTotalTimeout,
+} from "./connect.js";
+import { refreshCache } from "./discover.js";
+import {
+  appendElicitationNotes,
+  createElicitationHandler,
+  ElicitationNotes,
+} from "./elicitation.js";
+import {
+  cancelledResult,
+  invalidArgumentsResult,
+  queueTimeoutResult,
+  timeoutResult,
+} from "./errors.js";
+import { CallLimiter, QueueTimeoutError, type Slot } from "./limiter.js";
+import {
+  DEFAULT_COLLISION_STRATEGY,
+  DEFAULT_MAX_TOOL_NAME_LENGTH,
+  formatCollision,
+  isToolIncluded,
+  listToolNameCandidates,
+  resolveToolNames,
+} from "./naming.js";
+import { createProgressHandler, type ToolUpdateCallback } from "./progress.js";
+import { createPromptTool } from "./prompts.js";
+import { createResourceTools, type ResourceSubscriptions } from "./resources.js";
+import { convertToolResult } from "./results.js";
+import { getAgentWorkspace, resolveRoots, usesWorkspace } from "./roots.js";
+import { createSamplingHandler } from "./sampling.js";
+import { ConnectionManager } from "./pool.js";
+import {
+  CircuitOpenError,
+  classifyError,
+  computeBackoff,
+  isRetryable,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry.js";
+import { DEFAULT_SCHEMA_PROFILE, normalizeSchema } from "./schema.js";
+import { createRedactingLogger, redactErrorResult, redactSecrets } from "./secrets.js";
+import { buildStatus, createStatusTool, STATUS_TOOL } from "./status.js";
+import { createLevelLogger, Telemetry, type CallTrace } from "./telemetry.js";
+import {
+  createReadResultTool,
+  DEFAULT_MAX_RESULT_CHARS,
+  limitResultText,
+  READ_RESULT_TOOL,
+  ResultStore,
+} from "./truncate.js";
+import type { PluginConfig, ServerConfig } from "./types.js";
+import { compileArgValidator, compileOutputValidator } from "./validate.js";
+
+export {
+  connectClient,
+  connectUrlTransport,
+  getCallTimeout,
+  getMaxTotalTimeout,
+  getTransportMode,
+  resolveEnvVars,
+} from "./connect.js";
+export { normalizeSchema } from "./schema.js";
+export { redactSecrets, resolveSecrets } from "./secrets.js";
+export {
+  getAgentToolName,
+  isToolIncluded,
+  resolveToolNames,
+  sanitizeToolName,
+} from "./naming.js";
+export type { PluginConfig, ServerConfig, ToolOverrides, TransportMode } from "./types.js";
 
-// ---- Types ----
-
-export type TransportMode = "streamable-http" | "sse" | "auto";
-
-export interface ServerConfig {
-  command?: string;
-  args?: string[];
-  env?: Record<string, string>;
-  url?: string;
-  headers?: Record<string, string>;
-  enabled?: boolean;
-  toolPrefix?: boolean;
-  transport?: TransportMode;
-}
-
-interface PluginConfig {
-  servers?: Record<string, ServerConfig>;
-  optional?: boolean;
-}
-
-interface CachedTool {
-  name: string;
-  description?: string;
-  inputSchema?: Record<string, unknown>;
-}
-
-interface CacheEntry {
-  server: string;
-  tools: CachedTool[];
-  discoveredAt: string;
-}
-
-interface Cache {
-  version: number;
-  servers: CacheEntry[];
-}
+// ---- Plugin ----
 
-// ---- Helpers ----
+export default function register(api: any) {
+  // api.config is the FULL openclaw config, not just the plugin config.
+  // Extract our plugin-specific config from the entries block.
+  const fullConfig = api.config ?? {};
+  const pluginEntry = fullConfig?.plugins?.entries?.["mcp-bridge"] ?? {};
+  const config: PluginConfig = pluginEntry.config ?? {};
+  // Resolved secret values never reach the gateway log or the agent
+  const logger = createLevelLogger(createRedactingLogger(api.logger), config.logging?.level);
+  const telemetry = new Telemetry(logger, config.logging, config.tracing);
+  const servers = config.servers ?? {};
+  const optionalTools = config.optional ?? false;
+  const refreshOnStart = config.refreshOnStart ?? true;
+  const collisionStrategy = config.collisionStrategy ?? DEFAULT_COLLISION_STRATEGY;
+  const maxToolNameLength = config.maxToolNameLength ?? DEFAULT_MAX_TOOL_NAME_LENGTH;
+  const schemaProfile = config.schemaProfile ?? DEFAULT_SCHEMA_PROFILE;
+  const maxResultChars = config.maxResultChars ?? DEFAULT_MAX_RESULT_CHARS;
+  const resultStore = new ResultStore(config.resultStorage);
+  const confirmations = new ConfirmationStore<any>();
 
-export function resolveEnvVars(value: string): string {
-  return value.replace(/\$\{([^}]+)\}/g, (_match, varName) => {
-    return process.env[varName] ?? "";
-  });
-}
+  // Determine plugin directory
+  const pluginDir = path.dirname(
+    typeof __filename !== "undefined"
+      ? __filename
+      : new URL(import.meta.url).pathname
+  );
 
-export function sanitizeToolName(
-  serverName: string,
-  toolName: string,
-  prefix: boolean
-): string {
-  const sanitize = (s: string) =>
-    s
-      .replace(/[^a-zA-Z0-9_]/g, "_")
-      .replace(/_+/g, "_")
-      .replace(/^_|_$/g, "")
-      .toLowerCase();
-
-  return prefix
-    ? `${sanitize(serverName)}_${sanitize(toolName)}`
-    : sanitize(toolName);
-}
+  // Load cached tool schemas (synchronous — safe for plugin registration)
+  const cachePath = path.join(pluginDir, CACHE_FILE);
+  const loadedCache = loadCache(cachePath);
+  const cache: Cache = loadedCache ?? { version: CACHE_VERSION, servers: [] };
 
-function loadCache(pluginDir: string): Cache | null {
-  const cachePath = path.join(pluginDir, ".mcp-tools-cache.json");
-  try {
-    const raw = fs.readFileSync(cachePath, "utf-8");
-    const cache = JSON.parse(raw) as Cache;
-    if (cache.version !== 1 || !Array.isArray(cache.servers)) return null;
-    return cache;
-  } catch {
-    return null;
+  if (cache.servers.length === 0) {
+    logger.warn(
+      refreshOnStart
+        ? "mcp-bridge: no tool cache found. Discovering tools in the background; restart the gateway once discovery completes."
+        : "mcp-bridge: no tool cache found. Run `npx tsx discover.ts` in the plugin directory to discover MCP tools."
+    );
   }
-}
 
-export function getTransportMode(serverConfig: ServerConfig): TransportMode {
-  return serverConfig.transport ?? "auto";
-}
-
-function resolveHeaders(headers?: Record<string, string>): Record<string, string> {
-  const resolvedHeaders: Record<string, string> = {};
-  if (!headers) {
-    return resolvedHeaders;
+  function registerTool(tool: any, opts: { optional: boolean; name?: string }) {
+    const wrap = (t: any) => {
+      const execute = t.execute;
+      return { ...t, execute: async (...args: any[]) => redactErrorResult(await execute(...args)) };
+    };
+    if (typeof tool === "function") {
+      // Tool factory: the host calls it per agent and skips null
+      api.registerTool((ctx: AgentToolContext) => {
+        const built = tool(ctx ?? {});
+        return built ? wrap(built) : null;
+      }, opts);
+      return;
+    }
+    api.registerTool(wrap(tool), opts);
   }
 
-  for (const [k, v] of Object.entries(headers)) {
-    resolvedHeaders[k] = resolveEnvVars(v);
+  /**
+   * Register one server tool as a factory, so each agent gets its own copy
+   * (its truncated results and confirmations stay its own). Scoped servers
+   * return nothing for agents outside the scope. `build` runs once per agent,
+   * and per workspace for servers with `${workspace}` roots, so each
+   * workspace gets its own connection.
+   */
+  function registerServerTool(
+    serverName: string,
+    name: string,
+    build: (agentId?: string, workspace?: string) => any
+  ) {
+    const serverConfig = servers[serverName];
+    const trackWorkspace = usesWorkspace(serverConfig);
+    const perAgent = new Map<string, any>();
+    registerTool(
+      (ctx: AgentToolContext) => {
+        const tags = getAgentTags(config, fullConfig, ctx.agentId);
+        if (!isAgentAllowed(serverConfig, ctx.agentId, tags)) return null;
+        const workspace = trackWorkspace
+          ? (ctx.workspaceDir ?? getAgentWorkspace(fullConfig, ctx.agentId))
+          : undefined;
+        const agentKey = `${ctx.agentId ?? ""}\n${workspace ?? ""}`;
+        if (!perAgent.has(agentKey)) perAgent.set(agentKey, build(ctx.agentId, workspace));
+        return perAgent.get(agentKey);
+      },
+      { optional: optionalTools, name }
+    );
   }
 
-  return resolvedHeaders;
-}
-
-export async function connectUrlTransport(
-  client: Client,
-  serverName: string,
-  serverConfig: ServerConfig,
-  logger: { info: (msg: string) => void; warn: (msg: string) => void }
-): Promise<void> {
-  const resolvedUrl = resolveEnvVars(serverConfig.url ?? "");
-  const resolvedHeaders = resolveHeaders(serverConfig.headers);
-  const mode = getTransportMode(serverConfig);
-
-  const connectStreamable = async (): Promise<void> => {
-    const { StreamableHTTPClientTransport } = await import(
-      "@modelcontextprotocol/sdk/client/streamableHttp.js"
-    );
+  // Registered agent tool names, keyed by `<server>/<candidate key>`
+  const agentNames = new Map<string, string>();
+  const registeredNames = new Set<string>([CONFIRM_TOOL, READ_RESULT_TOOL, STATUS_TOOL]);
+  const subscriptions = new Map<string, ResourceSubscriptions>();
+  // MCP tool names each server currently offers (updated on tools/list_changed)
+  const offeredTools = new Map<string, Set<string>>(
+    cache.servers.map((entry) => [entry.server, new Set(entry.tools.map((t) => t.name))])
+  );
 
-    const transport = new StreamableHTTPClientTransport(new URL(resolvedUrl), {
-      requestInit: { headers: resolvedHeaders },
-    });
+  function getSubscriptions(serverName: string): ResourceSubscriptions {
+    let subs = subscriptions.get(serverName);
+    if (!subs) {
+      subs = { subscribed: new Set(), updated: new Set() };
+      subscriptions.set(serverName, subs);
+    }
+    return subs;
+  }
 
-    await client.connect(transport);
-    logger.info(`mcp-bridge: ${serverName} connected via streamable-http`);
+  // Pooled connections keyed by server, or `<server>#<hash>` for agents with
+  // their own credentials or workspace; values are the effective server configs
+  const connections: Record<string, ServerConfig> = { ...servers };
+  const connectionServers = new Map<string, string>();
+
+  // Lazy connection pool with health checks and idle disconnect
+  const pool = new ConnectionManager({
+    servers: connections,
+    logger,
+    connect: connectServer,
+    // Resource update notifications need an open connection
+    keepAlive: (key) =>
+      (subscriptions.get(connectionServers.get(key) ?? key)?.subscribed.size ?? 0) > 0,
+    // Per-agent connections (one per credential set or workspace) are
+    // evicted when idle; the next call re-creates them
+    transient: (key) => (connectionServers.get(key) ?? key) !== key,
+    onEvict: (key) => {
+      delete connections[key];
+      connectionServers.delete(key);
+      limiters.delete(key);
+      workspaces.delete(key);
+      servedRoots.delete(key);
+    },
+  });
+  const getClient = (key: string) => {
+    syncRoots(key);
+    return pool.get(key);
   };
 
-  const connectSse = async (): Promise<void> => {
-    const { SSEClientTransport } = await import(
-      "@modelcontextprotocol/sdk/client/sse.js"
+  // Workspace each `${workspace}` roots connection was opened for
+  const workspaces = new Map<string, string>();
+  // Roots last answered on each connection (JSON), to notice changes
+  const servedRoots = new Map<string, string>();
+
+  function rootsFor(key: string): Root[] {
+    const serverName = connectionServers.get(key) ?? key;
+    return resolveRoots(
+      serverName,
+      connections[key]?.roots,
+      workspaces.get(key) ?? getAgentWorkspace(fullConfig, undefined),
+      logger
     );
+  }
 
-    const transport = new SSEClientTransport(new URL(resolvedUrl), {
-      requestInit: { headers: resolvedHeaders },
+  /**
+   * Tell a connected server its roots changed: shared connections follow the
+   * host's default workspace and `${ENV}` values, which can change at runtime.
+   */
+  function syncRoots(key: string): void {
+    const served = servedRoots.get(key);
+    if (served === undefined || !connections[key]?.roots) return;
+    const current = JSON.stringify(rootsFor(key));
+    if (current === served) return;
+    servedRoots.set(key, current);
+
+    const client = pool.peek(key);
+    if (!client) return; // roots/list on connect picks them up
+    logger.info(`mcp-bridge: ${key} roots changed; notifying roots/list_changed`);
+    client.sendRootsListChanged().catch((err: any) => {
+      logger.warn(
+        `mcp-bridge: ${key} failed to send roots/list_changed: ${err?.message ?? String(err)}`
+      );
     });
+  }
 
-    await client.connect(transport);
-    logger.info(`mcp-bridge: ${serverName} connected via sse`);
-  };
-
-  if (mode === "sse") {
-    await connectSse();
-    return;
+  /** Connection key for a server as used by one agent (in one workspace). */
+  function connectionFor(serverName: string, agentId?: string, workspace?: string): string {
+    const { key, config: effective } = resolveAgentServer(
+      serverName,
+      servers[serverName],
+      agentId,
+      workspace
+    );
+    if (!connectionServers.has(key)) {
+      connections[key] = effective;
+      connectionServers.set(key, serverName);
+      if (workspace) workspaces.set(key, workspace);
+    }
+    return key;
   }
 
-  if (mode === "streamable-http") {
-    await connectStreamable();
-    return;
+  // Concurrency/rate limits, one per connection shared by all its tools
+  const limiters = new Map<string, CallLimiter>();
+  function limiterFor(key: string): CallLimiter {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = new CallLimiter(key, connections[key]);
+      limiters.set(key, limiter);
+    }
+    return limiter;
   }
 
-  try {
-    await connectStreamable();
-  } catch (err: any) {
-    logger.warn(
-      `mcp-bridge: ${serverName} streamable-http failed (${err?.message ?? String(err)}), falling back to sse`
+  // Server-initiated requests; one handler (and quota) per server, shared by
+  // its agent connections. Undefined = capability not advertised.
+  const elicitationNotes = new ElicitationNotes();
+  const enabledServers = Object.entries(servers).filter(([, c]) => c.enabled !== false);
+  const samplingHandlers = new Map(
+    enabledServers.map(([name, serverConfig]) => [
+      name,
+      createSamplingHandler({
+        serverName: name,
+        config: serverConfig.sampling,
+        hook: api.createMessage?.bind(api),
+        logger,
+      }),
+    ])
+  );
+  const elicitationHandlers = new Map(
+    enabledServers.map(([name, serverConfig]) => [
+      name,
+      createElicitationHandler({
+        serverName: name,
+        config: serverConfig.elicitation,
+        hook: api.requestUserInput?.bind(api),
+        notes: elicitationNotes,
+        logger,
+      }),
+    ])
+  );
+
+  async function connectServer(key: string, serverConfig: ServerConfig): Promise<Client> {
+    const serverName = connectionServers.get(key) ?? key;
+    const sampling = samplingHandlers.get(serverName);
+    const elicitation = elicitationHandlers.get(serverName);
+    const client = new Client(
+      { name: `openclaw-mcp-bridge/${serverName}`, version: "0.1.0" },
+      {
+        capabilities: {
+          tools: {},
+          ...(serverConfig.roots ? { roots: { listChanged: true } } : {}),
+          ...(sampling ? { sampling: {} } : {}),
+          ...(elicitation ? { elicitation: { form: {}, url: {} } } : {}),
+        },
+      }
     );
-    await connectSse();
-  }
-}
+    if (serverConfig.roots) {
+      client.setRequestHandler(ListRootsRequestSchema, () => {
+        const roots = rootsFor(key);
+        servedRoots.set(key, JSON.stringify(roots));
+        return { roots };
+      });
+    }
+    if (sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+        sampling(request.params, extra.signal)
+      );
+    }
+    if (elicitation) {
+      client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+        elicitation(request.params, key, extra.signal)
+      );
+    }
 
-// ---- Plugin ----
+    await connectClient(client, serverName, serverConfig, logger);
 
-export default function register(api: any) {
-  // api.config is the FULL openclaw config, not just the plugin config.
-  // Extract our plugin-specific config from the entries block.
-  const fullConfig = api.config ?? {};
-  const pluginEntry = fullConfig?.plugins?.entries?.["mcp-bridge"] ?? {};
-  const config: PluginConfig = pluginEntry.config ?? {};
-  const servers = config.servers ?? {};
-  const optionalTools = config.optional ?? false;
+    logger.info(
+      `mcp-bridge: connected to ${serverName}${key !== serverName ? ` (agent credentials ${key})` : ""}`
+    );
 
-  // Determine plugin directory
-  const pluginDir = path.dirname(
-    typeof __filename !== "undefined"
-      ? __filename
-      : new URL(import.meta.url).pathname
-  );
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      try {
+        await handleToolListChanged(serverName, servers[serverName], client);
+      } catch (err: any) {
+        logger.warn(
+          `mcp-bridge: ${serverName} failed to refresh tools after list_changed: ${err?.message ?? String(err)}`
+        );
+      }
+    });
 
-  // Load cached tool schemas (synchronous — safe for plugin registration)
-  const cache = loadCache(pluginDir);
+    // Track resource updates and restore subscriptions after a reconnect
+    const subs = getSubscriptions(serverName);
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      const uri = notification.params.uri;
+      if (subs.subscribed.has(uri)) {
+        subs.updated.add(uri);
+        logger.info(`mcp-bridge: ${serverName} resource updated: ${uri}`);
+      }
+    });
+    for (const uri of subs.subscribed) {
+      try {
+        await client.subscribeResource({ uri });
+      } catch (err: any) {
+        logger.warn(
+          `mcp-bridge: ${serverName} failed to resubscribe to ${uri}: ${err?.message ?? String(err)}`
+        );
+      }
+    }
 
-  if (!cache || cache.servers.length === 0) {
-    api.logger.warn(
-      "mcp-bridge: no tool cache found. Run `npx tsx discover.ts` in the plugin directory to discover MCP tools."
-    );
-    return;
+    return client;
   }
 
-  // Lazy connection pool
-  const clients = new Map<string, Client>();
-  const connecting = new Map<string, Promise<Client>>();
+  /**
+   * Re-list tools after `notifications/tools/list_changed`, update the cache
+   * entry (in memory and on disk) and, when the host supports it, register
+   * or unregister the affected agent tools live.
+   */
+  async function handleToolListChanged(
+    serverName: string,
+    serverConfig: ServerConfig,
+    client: Client
+  ): Promise<void> {
+    const result = await client.listTools();
+    const tools = (result.tools ?? []).map(toCachedTool);
+
+    let entry = cache.servers.find((e) => e.server === serverName);
+    const previous = entry ? { servers: [{ ...entry }] } : null;
+    if (!entry) {
+      entry = {
+        server: serverName,
+        configFingerprint: configFingerprint(serverConfig),
+        tools: [],
+        discoveredAt: "",
+      };
+      cache.servers.push(entry);
+    }
+    entry.tools = tools;
+    entry.discoveredAt = new Date().toISOString();
+    offeredTools.set(serverName, new Set(tools.map((t) => t.name)));
 
-  async function getClient(serverName: string): Promise<Client> {
-    const existing = clients.get(serverName);
-    if (existing) return existing;
+    const [diff] = diffCache(previous, { servers: [entry] });
+    if (!diff) return;
 
-    // Prevent duplicate connections
-    const pending = connecting.get(serverName);
-    if (pending) return pending;
+    logger.info(`mcp-bridge: tools/list_changed — ${formatCacheDiff(diff)}`);
+    try {
+      writeCacheEntry(cachePath, entry);
+    } catch (err: any) {
+      logger.warn(`mcp-bridge: failed to update tool cache: ${err?.message ?? String(err)}`);
+    }
 
-    const serverConfig = servers[serverName];
-    if (!serverConfig) {
-      throw new Error(`No config for MCP server '${serverName}'`);
+    if (typeof api.unregisterTool !== "function") {
+      if (diff.added.length + diff.changed.length > 0) {
+        logger.info(
+          `mcp-bridge: restart the gateway to register new or changed tools from ${serverName}`
+        );
+      }
+      return;
     }
 
-    const promise = connectServer(serverName, serverConfig);
-    connecting.set(serverName, promise);
+    for (const name of diff.removed) {
+      const key = `${serverName}/tool:${name}`;
+      const agentName = agentNames.get(key);
+      if (!agentName) continue;
+      api.unregisterTool(agentName);
+      agentNames.delete(key);
+      registeredNames.delete(agentName);
+    }
+    for (const name of diff.changed) {
+      const agentName = agentNames.get(`${serverName}/tool:${name}`);
+      if (!agentName) continue;
+      const tool = tools.find((t) => t.name === name)!;
+      api.unregisterTool(agentName);
+      registerServerTool(serverName, agentName, (agentId, workspace) =>
+        createBridgedTool(serverName, serverConfig, tool, agentName, agentId, workspace)
+      );
+    }
 
-    try {
-      const client = await promise;
-      clients.set(serverName, client);
-      return client;
-    } finally {
-      connecting.delete(serverName);
+    // New tools must not collide with anything already registered
+    const added = listToolNameCandidates(serverName, serverConfig, {
+      tools: tools.filter((t) => diff.added.includes(t.name)),
+    });
+    const { names: addedNames, collisions: addedCollisions } = resolveToolNames(added, {
+      // Nothing can be rejected at load time anymore; skip instead
+      strategy: collisionStrategy === "error" ? "first-wins" : collisionStrategy,
+      maxLength: maxToolNameLength,
+      taken: registeredNames,
+    });
+    for (const collision of addedCollisions) {
+      logger.warn(`mcp-bridge: ${formatCollision(collision)}`);
     }
+    added.forEach((candidate, i) => {
+      const agentName = addedNames[i];
+      if (!agentName) return;
+      const tool = tools.find((t) => `tool:${t.name}` === candidate.key)!;
+      registerServerTool(serverName, agentName, (agentId, workspace) =>
+        createBridgedTool(serverName, serverConfig, tool, agentName, agentId, workspace)
+      );
+      agentNames.set(`${serverName}/${candidate.key}`, agentName);
+      registeredNames.add(agentName);
+    });
   }
 
-  async function connectServer(
+  // Build the agent tool that proxies one MCP tool
+  function createBridgedTool(
     serverName: string,
-    serverConfig: ServerConfig
-  ): Promise<Client> {
-    const client = new Client(
-      { name: `openclaw-mcp-bridge/${serverName}`, version: "0.1.0" },
-      { capabilities: { tools: {} } }
-    );
+    serverConfig: ServerConfig,
+    tool: CachedTool,
+    toolName: string,
+    agentId?: string,
+    workspace?: string
+  ) {
+    const mcpToolName = tool.name;
+    const connection = connectionFor(serverName, agentId, workspace);
+
+    const approval = getApprovalPolicy(serverConfig, mcpToolName, tool.annotations);
+    // Non-idempotent calls are only retried if they never reached the server
+    const idempotent = isIdempotent(tool.annotations);
+
+    const description = [
+      tool.description ?? `MCP tool from ${serverName}`,
+      `(MCP: ${serverName}/${mcpToolName})`,
+      approval === "confirm" ? "Requires user confirmation." : "",
+      approval === "deny" ? "Disabled by policy." : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    // Lossy conversions are reported by discovery, not on every load
+    const parameters = normalizeSchema(
+      tool.inputSchema,
+      serverConfig.schemaProfile ?? schemaProfile
+    ).schema;
+    // Validate against the server's own schema, not the normalized one
+    const validateArgs = compileArgValidator(tool.inputSchema, serverConfig.validation);
+    const validateOutput = compileOutputValidator(tool.outputSchema);
+    const timeout = getCallTimeout(serverConfig, mcpToolName);
+    const maxTotalTimeout = getMaxTotalTimeout(serverConfig, mcpToolName);
+    const retryPolicy = resolveRetryPolicy(serverConfig.retry);
+
+    async function callServer(
+      call: CallTrace,
+      params: Record<string, unknown>,
+      signal?: AbortSignal,
+      onUpdate?: ToolUpdateCallback
+    ) {
+      if (!offeredTools.get(serverName)?.has(mcpToolName)) {
+        call.fail(new Error("tool removed by server"), "tool_removed");
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `MCP tool ${serverName}/${mcpToolName} is no longer offered by server ${serverName}. It was removed after the tool list changed.`,
+            },
+          ],
+          isError: true,
+        };
+      }
 
-    if (serverConfig.command) {
-      const resolvedArgs = (serverConfig.args ?? []).map(resolveEnvVars);
-      const resolvedEnv: Record<string, string> = {};
-      if (serverConfig.env) {
-        for (const [k, v] of Object.entries(serverConfig.env)) {
-          resolvedEnv[k] = resolveEnvVars(v);
+      let args = params;
+      if (validateArgs) {
+        const checked = validateArgs(params);
+        if (!checked.valid) {
+          return invalidArgumentsResult(serverName, mcpToolName, checked.errors);
         }
+        if (checked.removed.length > 0) {
+          logger.info(
+            `mcp-bridge: ${serverName}/${mcpToolName}: dropped unknown argument(s) ${checked.removed.join(", ")}`
+          );
+        }
+        args = checked.args;
       }
 
-      const transport = new StdioClientTransport({
-        command: resolveEnvVars(serverConfig.command),
-        args: resolvedArgs,
-        env: { ...process.env, ...resolvedEnv } as Record<string, string>,
+      // An onprogress handler makes the SDK attach a progress token
+      const onprogress = createProgressHandler({
+        label: `${serverName}/${mcpToolName}`,
+        logger,
+        onUpdate: typeof onUpdate === "function" ? onUpdate : undefined,
       });
 
-      await client.connect(transport);
-    } else if (serverConfig.url) {
-      await connectUrlTransport(client, serverName, serverConfig, api.logger);
-    } else {
-      throw new Error(`Server ${serverName}: must specify 'command' or 'url'`);
+      for (let attempt = 1; ; attempt++) {
+        // Re-registers the connection if it was evicted while idle
+        connectionFor(serverName, agentId, workspace);
+        let slot: Slot;
+        try {
+          slot = await limiterFor(connection).acquire(signal);
+        } catch (err: any) {
+          if (!(err instanceof QueueTimeoutError)) {
+            return cancelledResult(serverName, mcpToolName);
+          }
+          logger.warn(`mcp-bridge: ${serverName}/${mcpToolName}: ${err.message}`);
+          call.fail(err, "queue_timeout");
+          return queueTimeoutResult(serverName, mcpToolName, err.waitedMs);
+        }
+        if (slot.waitedMs > 0) {
+          call.queued(slot.waitedMs, slot.queueDepth);
+          logger.debug?.(
+            `mcp-bridge: ${serverName}/${mcpToolName} waited ${slot.waitedMs}ms behind ${slot.queueDepth} queued call(s)`
+          );
+        }
+
+        const startedAt = Date.now();
+        call.attempt();
+        let sent = false;
+        let client: Client;
+        let result: CompatibilityCallToolResult;
+        try {
+          client = await getClient(connection);
+          call.setTransport(getConnectedTransport(client));
+          sent = true;
+          // Timeouts and host aborts send notifications/cancelled via the SDK
+          result = await client.callTool(
+            { name: mcpToolName, arguments: args },
+            undefined,
+            {
+              timeout,
+              signal,
+              onprogress,
+              resetTimeoutOnProgress: serverConfig.resetTimeoutOnProgress ?? true,
+              maxTotalTimeout,
+            }
+          );
+          pool.breaker(connection).recordSuccess();
+          pool.recordCall(connection, { tool: mcpToolName, durationMs: Date.now() - startedAt });
+        } catch (err: any) {
+          slot.release();
+          if (signal?.aborted) {
+            return cancelledResult(serverName, mcpToolName);
+          }
+          if (err instanceof CircuitOpenError) {
+            call.fail(err, "circuit_open");
+            return {
+              content: [{ type: "text" as const, text: err.message }],
+              isError: true,
+            };
+          }
+
+          pool.recordCall(connection, {
+            tool: mcpToolName,
+            durationMs: Date.now() - startedAt,
+            error: err,
+          });
+          const errorClass = classifyError(err);
+          call.fail(err, errorClass);
+          if (errorClass === "connection") {
+            // Connection may be dead — drop it so a retry gets a fresh one
+            pool.drop(connection);
+            // Failed connects were already counted by the pool
+            if (sent) pool.breaker(connection).recordFailure(err);
+          } else if (errorClass === "timeout") {
+            logger.warn(
+              `mcp-bridge: ${serverName}/${mcpToolName} timed out after ${timeout ?? "default"}ms`
+            );
+          }
+
+          if (
+            attempt < retryPolicy.maxAttempts &&
+            isRetryable(errorClass, retryPolicy) &&
+            (idempotent || !sent)
+          ) {
+            const delay = computeBackoff(attempt, retryPolicy);
+            logger.warn(
+              `mcp-bridge: ${serverName}/${mcpToolName} failed (${errorClass}: ${err?.message ?? String(err)}), retry ${attempt}/${retryPolicy.maxAttempts - 1} in ${delay}ms`
+            );
+            try {
+              await sleep(delay, signal);
+            } catch {
+              return cancelledResult(serverName, mcpToolName);
+            }
+            continue;
+          }
+
+          if (errorClass === "timeout") {
+            return timeoutResult(serverName, mcpToolName, timeout);
+          }
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `MCP error (${serverName}/${mcpToolName}): ${err.message ?? String(err)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // The call succeeded: failures from here on are not the connection's
+        // and the call must not be retried
+        try {
+          const converted = await convertToolResult(result, {
+            validateOutput,
+            readResource: serverConfig.fetchResourceLinks
+              ? async (uri) => (await client.readResource({ uri }, { signal })).contents
+              : undefined,
+          });
+          if (converted.details?.outputSchemaErrors) {
+            logger.warn(
+              `mcp-bridge: ${serverName}/${mcpToolName}: result does not match outputSchema`
+            );
+          }
+          return limitResultText(converted, {
+            maxChars: serverConfig.maxResultChars ?? maxResultChars,
+            strategy: serverConfig.resultTruncation ?? config.resultTruncation,
+            store: resultStore,
+            owner: agentId,
+            label: `${serverName}/${mcpToolName}`,
+          });
+        } catch (err: any) {
+          call.fail(err, "result_error");
+          logger.warn(
+            `mcp-bridge: ${serverName}/${mcpToolName}: failed to process the result: ${err?.message ?? String(err)}`
+          );
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `MCP error (${serverName}/${mcpToolName}): the tool ran but its result could not be processed: ${err?.message ?? String(err)}`,
+              },
+            ],
+            isError: true,
+          };
+        } finally {
+          slot.release();
+        }
+      }
     }
 
-    api.logger.info(`mcp-bridge: connected to ${serverName}`);
-    return client;
+    return {
+      name: toolName,
+      description,
+      parameters,
+
+      async execute(
+        toolCallId: string,
+        params: Record<string, unknown>,
+        signal?: AbortSignal,
+        onUpdate?: ToolUpdateCallback
+      ) {
+        const call = telemetry.startCall({
+          server: serverName,
+          tool: mcpToolName,
+          agentTool: toolName,
+          toolCallId,
+          args: params,
+        });
+
+        if (approval === "deny") {
+          return call.end(deniedResult(serverName, mcpToolName, "blocked by the approval policy"));
+        }
+        if (approval === "confirm") {
+          const summary = describeCall(serverName, mcpToolName, params);
+          let approved: boolean | undefined;
+          try {
+            approved = await requestHostApproval(api.requestApproval?.bind(api), {
+              server: serverName,
+              tool: mcpToolName,
+              agentTool: toolName,
+              summary,
+              params,
+              annotations: tool.annotations,
+              signal,
+            });
+          } catch (err: any) {
+            return call.end(
+              deniedResult(serverName, mcpToolName, `approval failed: ${err?.message ?? String(err)}`)
+            );
+          }
+
+          if (approved === false) {
+            return call.end(deniedResult(serverName, mcpToolName, "the user declined"));
+          }
+          if (approved === undefined) {
+            // No host approval: park the call until the agent confirms it
+            const token = confirmations.add(
+              summary,
+              async (confirmSignal, confirmUpdate) => {
+                const confirmed = telemetry.startCall({
+                  server: serverName,
+                  tool: mcpToolName,
+                  agentTool: toolName,
+                  toolCallId,
+                  args: params,
+                });
+                const result = await callServer(confirmed, params, confirmSignal, confirmUpdate);
+                return confirmed.end(
+                  appendElicitationNotes(result, elicitationNotes.take(connection))
+                );
+              },
+              agentId
+            );
+            return call.end(confirmationRequiredResult(serverName, mcpToolName, summary, token));
+          }
+        }
+
+        // Questions the server asked during the call, when the agent must answer them
+        const result = await callServer(call, params, signal, onUpdate);
+        return call.end(appendElicitationNotes(result, elicitationNotes.take(connection)));
+      },
+    };
   }
 
+  // Plan agent tool names for every enabled server before registering, so
+  // collisions are resolved up front instead of surfacing as host errors
+  const activeEntries = cache.servers.filter((entry) => {
+    const serverConfig = servers[entry.server];
+    return serverConfig && serverConfig.enabled !== false; // skip servers not in current config
+  });
+
+  const candidates = activeEntries.flatMap((entry) =>
+    listToolNameCandidates(entry.server, servers[entry.server], entry)
+  );
+  const { names, collisions } = resolveToolNames(candidates, {
+    strategy: collisionStrategy,
+    maxLength: maxToolNameLength,
+    taken: new Set(registeredNames),
+  });
+
+  for (const collision of collisions) {
+    logger.warn(`mcp-bridge: ${formatCollision(collision)}`);
+  }
+  if (collisionStrategy === "error" && collisions.length > 0) {
+    throw new Error(
+      `mcp-bridge: ${collisions.length} tool name collision(s); set collisionStrategy or adjust prefix/rename`
+    );
+  }
+
+  candidates.forEach((candidate, i) => {
+    const name = names[i];
+    if (name !== null) {
+      agentNames.set(`${candidate.server}/${candidate.key}`, name);
+      registeredNames.add(name);
+    }
+  });
+
+  const agentNameFor = (serverName: string, key: string) =>
+    agentNames.get(`${serverName}/${key}`);
+
   // Register tools from cache (synchronous — this is the critical part)
   let totalTools = 0;
 
-  for (const cacheEntry of cache.servers) {
+  for (const cacheEntry of activeEntries) {
     const serverName = cacheEntry.server;
     const serverConfig = servers[serverName];
 
-    if (!serverConfig || serverConfig.enabled === false) {
-      continue; // skip servers not in current config
+    if (
+      cacheEntry.configFingerprint &&
+      cacheEntry.configFingerprint !== configFingerprint(serverConfig)
+    ) {
+      logger.warn(
+        `mcp-bridge: cached tools for ${serverName} were discovered with a different server config; they may be stale until the cache is refreshed`
+      );
     }
 
-    const prefix = serverConfig.toolPrefix !== false;
+    let skipped = 0;
 
     for (const tool of cacheEntry.tools) {
-      const toolName = sanitizeToolName(serverName, tool.name, prefix);
-      const mcpToolName = tool.name;
-
-      const description = [
-        tool.description ?? `MCP tool from ${serverName}`,
-        `(MCP: ${serverName}/${mcpToolName})`,
-      ].join(" ");
-
-      const parameters = tool.inputSchema ?? {
-        type: "object" as const,
-        properties: {},
-      };
-
-      api.registerTool(
-        {
-          name: toolName,
-          description,
-          parameters,
+      if (!isToolIncluded(serverConfig, tool.name)) {
+        skipped++;
+        continue;
+      }
+      const toolName = agentNameFor(serverName, `tool:${tool.name}`);
+      if (!toolName) continue;
 
-          async execute(
-            _toolCallId: string,
-            params: Record<string, unknown>
-          ) {
-            for (let attempt = 0; attempt < 2; attempt++) {
-              try {
-                const client = await getClient(serverName);
-                const result = await client.callTool({
-                  name: mcpToolName,
-                  arguments: params,
-                });
+      registerServerTool(serverName, toolName, (agentId, workspace) =>
+        createBridgedTool(serverName, serverConfig, tool, toolName, agentId, workspace)
+      );
+      totalTools++;
+    }
 
-                // Normalize content: OC only renders type:"text" and type:"image".
-                // MCP servers may return type:"resource" (embedded resources) which
-                // OC silently drops. Unwrap resource content into text.
-                const rawContent = (result.content as any[]) ?? [];
-                const normalizedContent = rawContent.map((item: any) => {
-                  if (item.type === "resource" && item.resource) {
-                    return {
-                      type: "text" as const,
-                      text: item.resource.text ?? JSON.stringify(item.resource),
-                    };
-                  }
-                  return item;
-                });
+    if (skipped > 0) {
+      logger.info(
+        `mcp-bridge: ${serverName}: ${skipped} tool(s) filtered out by includeTools/excludeTools`
+      );
+    }
 
-                return {
-                  content: normalizedContent.length > 0
-                    ? normalizedContent
-                    : [{ type: "text", text: JSON.stringify(result) }],
-                  isError: result.isError === true,
-                };
-              } catch (err: any) {
-                if (attempt === 0) {
-                  // Connection may be dead — drop it and retry with a fresh one
-                  clients.delete(serverName);
-                  api.logger.warn(
-                    `mcp-bridge: ${serverName}/${mcpToolName} failed, retrying with fresh connection`
-                  );
-                  continue;
-                }
-                return {
-                  content: [
-                    {
-                      type: "text" as const,
-                      text: `MCP error (${serverName}/${mcpToolName}): ${err.message ?? String(err)}`,
-                    },
-                  ],
-                  isError: true,
-                };
-              }
-            }
-          },
-        },
-        { optional: optionalTools }
+    const resourceToolsFor = (agentId?: string, workspace?: string) =>
+      createResourceTools({
+        serverName,
+        toolName: (suffix) => agentNameFor(serverName, `resource:${suffix}`) ?? "",
+        entry: cacheEntry,
+        getClient: (name) => getClient(connectionFor(name, agentId, workspace)),
+        subscriptions: getSubscriptions(serverName),
+      });
+    for (const [i, tool] of resourceToolsFor().entries()) {
+      if (!tool.name) continue;
+      registerServerTool(serverName, tool.name, (agentId, workspace) =>
+        agentId === undefined && workspace === undefined
+          ? tool
+          : resourceToolsFor(agentId, workspace)[i]
       );
+      totalTools++;
+    }
 
+    for (const prompt of cacheEntry.prompts ?? []) {
+      const toolName = agentNameFor(serverName, `prompt:${prompt.name}`);
+      if (!toolName) continue;
+
+      registerServerTool(serverName, toolName, (agentId, workspace) =>
+        createPromptTool({
+          serverName,
+          prompt,
+          toolName,
+          getClient: (name) => getClient(connectionFor(name, agentId, workspace)),
+        })
+      );
       totalTools++;
     }
   }
 
-  api.logger.info(
-    `mcp-bridge: registered ${totalTools} tool(s) from ${cache.servers.length} server(s)`
+  // Bridge tools are per agent: each only sees that agent's results,
+  // confirmations and servers
+  registerTool(
+    (ctx: AgentToolContext) => createReadResultTool(resultStore, maxResultChars, ctx.agentId),
+    { optional: optionalTools, name: READ_RESULT_TOOL }
+  );
+
+  // Reads the cache file again to reflect background refreshes
+  const statusReport = (ctx: AgentToolContext) => {
+    const report = buildStatus({
+      config,
+      configSource: "openclaw.json (plugins.entries.mcp-bridge.config)",
+      cachePath,
+      cache: loadCache(cachePath) ?? cache,
+      connections: pool.stats(),
+      queues: Object.fromEntries(
+        [...limiters].filter(([, l]) => l.limited).map(([name, l]) => [name, l.stats()])
+      ),
+      agent: {
+        id: ctx.agentId,
+        tags: getAgentTags(config, fullConfig, ctx.agentId),
+        connections: Object.entries(servers).map(([name, serverConfig]) => {
+          const workspace = usesWorkspace(serverConfig)
+            ? (ctx.workspaceDir ?? getAgentWorkspace(fullConfig, ctx.agentId))
+            : undefined;
+          return resolveAgentServer(name, serverConfig, ctx.agentId, workspace).key;
+        }),
+      },
+    });
+    // Last errors may quote resolved secrets
+    return JSON.parse(redactSecrets(JSON.stringify(report)));
+  };
+  registerTool((ctx: AgentToolContext) => createStatusTool(() => statusReport(ctx)), {
+    optional: optionalTools,
+    name: STATUS_TOOL,
+  });
+  registerTool((ctx: AgentToolContext) => createConfirmTool(confirmations, ctx.agentId), {
+    optional: optionalTools,
+    name: CONFIRM_TOOL,
+  });
+
+  logger.info(
+    `mcp-bridge: registered ${totalTools} tool(s) from ${activeEntries.length} server(s)`
   );
 
-  // Service for cleanup on shutdown
+  // Background cache refresh: re-discover servers and rewrite the cache when
+  // tools changed. Registered tools only change on the next restart.
+  let stopped = false;
+
+  async function refreshInBackground(): Promise<void> {
+    const quietLogger = {
+      info: () => {},
+      warn: (msg: string) => logger.warn(msg),
+    };
+
+    const { cache: fresh, diffs, failed } = await refreshCache(
+      servers,
+      loadedCache,
+      quietLogger,
+      schemaProfile
+    );
+    if (stopped) return;
+
+    if (loadedCache && !isCacheChanged(loadedCache, fresh)) {
+      logger.info(
+        `mcp-bridge: tool cache is up to date${failed.length > 0 ? ` (${failed.length} server(s) unreachable)` : ""}`
+      );
+      return;
+    }
+
+    writeCache(cachePath, fresh);
+    for (const diff of diffs) {
+      logger.info(`mcp-bridge: ${formatCacheDiff(diff)}`);
+    }
+    if (diffs.length === 0 && loadedCache) {
+      logger.info("mcp-bridge: prompts, resources or server configs changed");
+    }
+    logger.info(
+      `mcp-bridge: tool cache updated (${fresh.servers.length} server(s)); restart the gateway to apply changes`
+    );
+  }
+
+  // Service for background refresh and cleanup on shutdown
   api.registerService({
     id: "mcp-bridge",
-    start: async () => {},
+    start: async () => {
+      pool.start();
+      if (!refreshOnStart) return;
+      // Not awaited: discovery must not delay gateway startup
+      refreshInBackground().catch((err: any) => {
+        logger.warn(`mcp-bridge: background discovery failed: ${err?.message ?? String(err)}`);
+      });
+    },
     stop: async () => {
-      for (const [name, client] of clients) {
-        try {
-          await client.close();
-          api.logger.info(`mcp-bridge: disconnected from ${name}`);
-        } catch {
-          // ignore
-        }
-      }
-      clients.clear();
+      stopped = true;
+      await pool.stop();
+      resultStore.clear();
+      confirmations.clear();
+      await telemetry.shutdown();
     },
   });
 }
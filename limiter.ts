@@ -0,0 +1,221 @@
+/**
+ * Per-server concurrency limit, FIFO queue and rate limit for tool calls.
+ *
+ * Agents often issue several calls at once; single-threaded stdio servers
+ * (SQLite-backed tools, browser automation) break when they all arrive on
+ * the same client. With `maxConcurrency` extra calls wait in order; with
+ * `rateLimit` calls are spaced to stay within a quota. A call that waits
+ * longer than `queueTimeoutMs` fails without reaching the server.
+ */
+
+// ---- Types ----
+
+export interface RateLimit {
+  calls: number;
+  per: "second" | "minute";
+}
+
+export interface LimiterConfig {
+  maxConcurrency?: number;
+  queueTimeoutMs?: number;
+  rateLimit?: RateLimit;
+}
+
+export interface LimiterStats {
+  active: number;
+  queued: number;
+  maxConcurrency?: number;
+  /** Deepest the queue has been. */
+  maxQueued: number;
+  /** Calls that had to wait. */
+  waited: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  timeouts: number;
+}
+
+export interface Slot {
+  /** Free the slot; safe to call more than once. */
+  release: () => void;
+  waitedMs: number;
+  /** Calls ahead of this one when it was queued (0 if it never waited). */
+  queueDepth: number;
+}
+
+export const DEFAULT_QUEUE_TIMEOUT_MS = 60_000;
+
+interface Waiter {
+  enqueuedAt: number;
+  depth: number;
+  resolve: (slot: Slot) => void;
+  cleanup: () => void;
+}
+
+export class QueueTimeoutError extends Error {
+  constructor(
+    readonly serverName: string,
+    readonly waitedMs: number
+  ) {
+    super(`${serverName}: call waited ${waitedMs}ms in the queue without a free slot`);
+    this.name = "QueueTimeoutError";
+  }
+}
+
+export class QueueAbortedError extends Error {
+  constructor(readonly serverName: string) {
+    super(`${serverName}: call aborted while queued`);
+    this.name = "QueueAbortedError";
+  }
+}
+
+// ---- Rate window ----
+
+/** Sliding-window counter for a `RateLimit`. */
+export class RateWindow {
+  private readonly starts: number[] = [];
+
+  constructor(
+    private readonly limit: RateLimit,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /** Milliseconds until another call fits (0 = now). */
+  delay(): number {
+    const window = this.limit.per === "minute" ? 60_000 : 1000;
+    const now = this.now();
+    while (this.starts.length > 0 && this.starts[0] <= now - window) this.starts.shift();
+    return this.starts.length < this.limit.calls ? 0 : this.starts[0] + window - now;
+  }
+
+  record(): void {
+    this.starts.push(this.now());
+  }
+
+  /** Record a call if it fits the limit; false (and nothing recorded) otherwise. */
+  tryTake(): boolean {
+    if (this.delay() > 0) return false;
+    this.record();
+    return true;
+  }
+}
+
+// ---- Limiter ----
+
+export class CallLimiter {
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private readonly rate?: RateWindow;
+  private rateTimer?: ReturnType<typeof setTimeout>;
+  private readonly counters = { maxQueued: 0, waited: 0, totalWaitMs: 0, maxWaitMs: 0, timeouts: 0 };
+
+  constructor(
+    readonly serverName: string,
+    private readonly config: LimiterConfig = {},
+    private readonly now: () => number = Date.now
+  ) {
+    if (config.rateLimit) this.rate = new RateWindow(config.rateLimit, now);
+  }
+
+  get limited(): boolean {
+    return this.config.maxConcurrency !== undefined || this.config.rateLimit !== undefined;
+  }
+
+  /** Wait for a slot. Rejects with QueueTimeoutError or QueueAbortedError. */
+  acquire(signal?: AbortSignal): Promise<Slot> {
+    if (signal?.aborted) return Promise.reject(new QueueAbortedError(this.serverName));
+    if (this.queue.length === 0 && this.hasCapacity() && this.rateDelay() === 0) {
+      return Promise.resolve(this.start(0, 0));
+    }
+
+    return new Promise((resolve, reject) => {
+      const enqueuedAt = this.now();
+      const timeoutMs = this.config.queueTimeoutMs ?? DEFAULT_QUEUE_TIMEOUT_MS;
+
+      const timer = setTimeout(() => {
+        remove();
+        this.counters.timeouts++;
+        reject(new QueueTimeoutError(this.serverName, this.now() - enqueuedAt));
+      }, timeoutMs);
+      const onAbort = () => {
+        remove();
+        reject(new QueueAbortedError(this.serverName));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const waiter: Waiter = {
+        enqueuedAt,
+        depth: this.queue.length,
+        resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+      const remove = () => {
+        waiter.cleanup();
+        const index = this.queue.indexOf(waiter);
+        if (index >= 0) this.queue.splice(index, 1);
+      };
+
+      this.queue.push(waiter);
+      this.counters.maxQueued = Math.max(this.counters.maxQueued, this.queue.length);
+      this.pump();
+    });
+  }
+
+  stats(): LimiterStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrency: this.config.maxConcurrency,
+      ...this.counters,
+    };
+  }
+
+  private hasCapacity(): boolean {
+    return this.config.maxConcurrency === undefined || this.active < this.config.maxConcurrency;
+  }
+
+  /** Milliseconds until the rate limit allows another call. */
+  private rateDelay(): number {
+    return this.rate?.delay() ?? 0;
+  }
+
+  private start(waitedMs: number, queueDepth: number): Slot {
+    this.active++;
+    this.rate?.record();
+
+    let released = false;
+    return {
+      waitedMs,
+      queueDepth,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.pump();
+      },
+    };
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.hasCapacity()) {
+      const delay = this.rateDelay();
+      if (delay > 0) {
+        this.rateTimer ??= setTimeout(() => {
+          this.rateTimer = undefined;
+          this.pump();
+        }, delay);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.cleanup();
+      const waitedMs = this.now() - waiter.enqueuedAt;
+      this.counters.waited++;
+      this.counters.totalWaitMs += waitedMs;
+      this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waitedMs);
+      waiter.resolve(this.start(waitedMs, waiter.depth));
+    }
+  }
+}
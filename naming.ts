@@ -0,0 +1,256 @@
+/**
+ * Agent tool naming, per-server tool filtering and name collision handling.
+ *
+ * Shared by plugin registration and the discovery CLI so both agree on
+ * which MCP tools are exposed and under which names.
+ */
+
+import { createHash } from "node:crypto";
+import { resourceToolSuffixes, type ResourceEntry } from "./resources.js";
+import type { ServerConfig } from "./types.js";
+
+function sanitize(s: string): string {
+  return s
+    .replace(/[^a-zA-Z0-9_]/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Build an agent tool name. `prefix` is either a boolean (prefix with the
+ * server name) or an explicit prefix string (empty string = no prefix).
+ */
+export function sanitizeToolName(
+  serverName: string,
+  toolName: string,
+  prefix: boolean | string
+): string {
+  const prefixValue = typeof prefix === "string" ? prefix : prefix ? serverName : "";
+  const sanitizedPrefix = sanitize(prefixValue);
+
+  return sanitizedPrefix
+    ? `${sanitizedPrefix}_${sanitize(toolName)}`
+    : sanitize(toolName);
+}
+
+/** The `prefix` argument for sanitizeToolName derived from a server config. */
+export function getToolPrefix(serverConfig: ServerConfig): boolean | string {
+  return serverConfig.prefix ?? serverConfig.toolPrefix !== false;
+}
+
+/**
+ * Agent tool name for an MCP tool: an explicit `rename` entry wins (used
+ * verbatim apart from sanitizing), otherwise prefix + tool name.
+ */
+export function getAgentToolName(
+  serverName: string,
+  serverConfig: ServerConfig,
+  mcpToolName: string
+): string {
+  const renamed = serverConfig.rename?.[mcpToolName];
+  if (renamed) {
+    return sanitizeToolName(serverName, renamed, false);
+  }
+  return sanitizeToolName(serverName, mcpToolName, getToolPrefix(serverConfig));
+}
+
+/** Compile a glob (`*` = any run of characters, `?` = one character). */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesAny(name: string, globs: string[]): boolean {
+  return globs.some((g) => globToRegExp(g).test(name));
+}
+
+/**
+ * Whether an MCP tool is exposed to agents. `includeTools` (if set) must
+ * match, and `excludeTools` must not. Globs match the MCP tool name.
+ */
+export function isToolIncluded(serverConfig: ServerConfig, mcpToolName: string): boolean {
+  if (serverConfig.includeTools && !matchesAny(mcpToolName, serverConfig.includeTools)) {
+    return false;
+  }
+  if (serverConfig.excludeTools && matchesAny(mcpToolName, serverConfig.excludeTools)) {
+    return false;
+  }
+  return true;
+}
+
+// ---- Collisions ----
+
+export type CollisionStrategy = "error" | "first-wins" | "suffix" | "force-prefix";
+
+export const DEFAULT_COLLISION_STRATEGY: CollisionStrategy = "force-prefix";
+export const DEFAULT_MAX_TOOL_NAME_LENGTH = 64;
+
+export interface ToolNameCandidate {
+  server: string;
+  /** Unique per server: `tool:<mcp name>`, `prompt:<name>` or `resource:<suffix>`. */
+  key: string;
+  /** Name from the naming rules (prefix/rename). */
+  name: string;
+  /** Name with the server prefix forced on, used by `force-prefix`. */
+  prefixedName: string;
+}
+
+export interface ToolNameCollision {
+  name: string;
+  /** `<server>/<key>` of every candidate that wanted the name. */
+  sources: string[];
+  resolution: string;
+}
+
+/**
+ * Shorten names over the host's limit, keeping them unique by replacing the
+ * tail with a hash of the full name.
+ */
+export function truncateToolName(name: string, maxLength: number): string {
+  if (name.length <= maxLength) return name;
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${name.slice(0, maxLength - hash.length - 1).replace(/_+$/, "")}_${hash}`;
+}
+
+/** Every agent tool name a cache entry would register, in registration order. */
+export function listToolNameCandidates(
+  serverName: string,
+  serverConfig: ServerConfig,
+  entry: ResourceEntry & {
+    tools: Array<{ name: string }>;
+    prompts?: Array<{ name: string }>;
+  }
+): ToolNameCandidate[] {
+  const prefix = getToolPrefix(serverConfig);
+  const candidates: ToolNameCandidate[] = [];
+
+  for (const tool of entry.tools) {
+    if (!isToolIncluded(serverConfig, tool.name)) continue;
+    candidates.push({
+      server: serverName,
+      key: `tool:${tool.name}`,
+      name: getAgentToolName(serverName, serverConfig, tool.name),
+      prefixedName: sanitizeToolName(serverName, tool.name, true),
+    });
+  }
+
+  for (const suffix of resourceToolSuffixes(entry)) {
+    candidates.push({
+      server: serverName,
+      key: `resource:${suffix}`,
+      // Always prefixed, so servers without a prefix do not collide
+      name: sanitizeToolName(serverName, suffix, prefix || true),
+      prefixedName: sanitizeToolName(serverName, suffix, true),
+    });
+  }
+
+  for (const prompt of entry.prompts ?? []) {
+    candidates.push({
+      server: serverName,
+      key: `prompt:${prompt.name}`,
+      name: sanitizeToolName(serverName, `prompt_${prompt.name}`, prefix),
+      prefixedName: sanitizeToolName(serverName, `prompt_${prompt.name}`, true),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Assign final names to candidates. Returns one name per candidate (same
+ * order; null = not registered) plus every collision found. Names in `taken`
+ * are already registered and always keep their owner.
+ *
+ * - `error`: colliding candidates get null (the caller decides to fail)
+ * - `first-wins`: the first candidate keeps the name, later ones get null
+ * - `suffix`: later candidates get `_2`, `_3`, ...
+ * - `force-prefix`: colliding candidates use their server-prefixed name,
+ *   falling back to a suffix if that still collides
+ */
+export function resolveToolNames(
+  candidates: ToolNameCandidate[],
+  options: { strategy?: CollisionStrategy; maxLength?: number; taken?: Set<string> } = {}
+): { names: Array<string | null>; collisions: ToolNameCollision[] } {
+  const strategy = options.strategy ?? DEFAULT_COLLISION_STRATEGY;
+  const maxLength = options.maxLength ?? DEFAULT_MAX_TOOL_NAME_LENGTH;
+  const taken = options.taken ?? new Set<string>();
+
+  const names: Array<string | null> = new Array(candidates.length).fill(null);
+  const collisions: ToolNameCollision[] = [];
+  const groups = new Map<string, number[]>();
+
+  candidates.forEach((c, i) => {
+    const base = truncateToolName(c.name, maxLength);
+    const group = groups.get(base);
+    if (group) group.push(i);
+    else groups.set(base, [i]);
+  });
+
+  // Reserve every uncontested name first so renamed tools cannot steal one
+  const used = new Set(taken);
+  for (const [base, group] of groups) {
+    if (group.length === 1 && !taken.has(base)) {
+      names[group[0]] = base;
+      used.add(base);
+    }
+  }
+
+  const withSuffix = (name: string): string => {
+    for (let n = 2; ; n++) {
+      const suffix = `_${n}`;
+      const candidate = truncateToolName(name, maxLength - suffix.length) + suffix;
+      if (!used.has(candidate)) return candidate;
+    }
+  };
+
+  for (const [base, group] of groups) {
+    if (group.length === 1 && !taken.has(base)) continue;
+
+    const sources = group.map((i) => `${candidates[i].server}/${candidates[i].key}`);
+    if (taken.has(base)) sources.unshift("(already registered)");
+    const outcome: string[] = [];
+    const assign = (i: number, name: string) => {
+      names[i] = name;
+      used.add(name);
+      outcome.push(`${candidates[i].server}/${candidates[i].key} → ${name}`);
+    };
+    // The first candidate keeps the name unless an existing tool owns it
+    const [first, ...rest] = taken.has(base) ? [undefined, ...group] : group;
+
+    switch (strategy) {
+      case "error":
+        break;
+      case "first-wins":
+        if (first !== undefined) assign(first, base);
+        break;
+      case "suffix":
+        if (first !== undefined) assign(first, base);
+        for (const i of rest) assign(i, withSuffix(base));
+        break;
+      case "force-prefix":
+        for (const i of group) {
+          const prefixed = truncateToolName(candidates[i].prefixedName, maxLength);
+          assign(i, used.has(prefixed) ? withSuffix(prefixed) : prefixed);
+        }
+        break;
+    }
+
+    const skipped = group.filter((i) => names[i] === null).length;
+    if (skipped > 0) outcome.push(`${skipped} not registered`);
+    collisions.push({ name: base, sources, resolution: `${strategy}: ${outcome.join(", ")}` });
+  }
+
+  return { names, collisions };
+}
+
+export function formatCollision(collision: ToolNameCollision): string {
+  return `tool name collision on '${collision.name}' between ${collision.sources.join(", ")} (${collision.resolution})`;
+}
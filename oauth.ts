@@ -0,0 +1,343 @@
+/**
+ * OAuth 2.1 for remote (streamable-http / sse) MCP servers.
+ *
+ * The SDK transports handle metadata discovery, dynamic client registration,
+ * PKCE and token refresh through an `OAuthClientProvider`. This module
+ * supplies that provider, backed by a local token store, and the interactive
+ * authorization code flow that `npx tsx discover.ts auth <server>` runs:
+ * a loopback HTTP listener receives the redirect and the code is exchanged
+ * for tokens. The gateway never opens a browser; it only uses and refreshes
+ * stored tokens.
+ */
+
+import { auth, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import { resolveSecrets } from "./secrets.js";
+import type { ServerConfig } from "./types.js";
+
+// ---- Types ----
+
+export interface OAuthConfig {
+  /** Pre-registered client id; without it the client registers dynamically. */
+  clientId?: string;
+  clientSecret?: string;
+  /** Space-separated scopes to request. */
+  scope?: string;
+  /** Loopback port for the redirect URI (default: 8976). */
+  redirectPort?: number;
+}
+
+interface StoredServerAuth {
+  serverUrl: string;
+  clientInformation?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  codeVerifier?: string;
+  updatedAt: string;
+}
+
+interface TokenStoreFile {
+  version: 1;
+  servers: Record<string, StoredServerAuth>;
+}
+
+export const DEFAULT_REDIRECT_PORT = 8976;
+
+// How long `discover.ts auth` waits for the browser redirect
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ---- Helpers ----
+
+export function getOAuthConfig(serverConfig: ServerConfig): OAuthConfig | undefined {
+  if (!serverConfig.oauth) return undefined;
+  if (serverConfig.oauth === true) return {};
+
+  const { clientId, clientSecret } = serverConfig.oauth;
+  return {
+    ...serverConfig.oauth,
+    ...(clientId ? { clientId: resolveSecrets(clientId, "oauth.clientId") } : {}),
+    ...(clientSecret ? { clientSecret: resolveSecrets(clientSecret, "oauth.clientSecret") } : {}),
+  };
+}
+
+/** Token store location: `MCP_BRIDGE_TOKEN_STORE`, else under ~/.openclaw. */
+export function defaultTokenStorePath(): string {
+  return (
+    process.env.MCP_BRIDGE_TOKEN_STORE ??
+    path.join(os.homedir(), ".openclaw", "mcp-bridge", "oauth-tokens.json")
+  );
+}
+
+// ---- Token store ----
+
+/**
+ * Client registrations and tokens per server, in one JSON file readable only
+ * by the current user (0600, directory 0700). Entries are dropped when the
+ * server URL changes, so tokens are never sent to a different server.
+ */
+export class TokenStore {
+  constructor(readonly filePath: string = defaultTokenStorePath()) {}
+
+  private read(): TokenStoreFile {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+      if (raw?.version === 1 && raw.servers) return raw;
+    } catch {
+      // missing or unreadable — start empty
+    }
+    return { version: 1, servers: {} };
+  }
+
+  private write(data: TokenStoreFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+    fs.chmodSync(this.filePath, 0o600);
+  }
+
+  get(serverName: string, serverUrl: string): StoredServerAuth | undefined {
+    const entry = this.read().servers[serverName];
+    return entry && entry.serverUrl === serverUrl ? entry : undefined;
+  }
+
+  update(serverName: string, serverUrl: string, patch: Partial<StoredServerAuth>): void {
+    const data = this.read();
+    const current = this.get(serverName, serverUrl);
+    data.servers[serverName] = {
+      ...current,
+      ...patch,
+      serverUrl,
+      updatedAt: new Date().toISOString(),
+    };
+    this.write(data);
+  }
+
+  delete(serverName: string): void {
+    const data = this.read();
+    if (!(serverName in data.servers)) return;
+    delete data.servers[serverName];
+    this.write(data);
+  }
+}
+
+// ---- Provider ----
+
+export interface OAuthProviderOptions {
+  /** Receives the authorization URL when the user must sign in. */
+  onRedirect?: (authorizationUrl: URL) => void | Promise<void>;
+  /** Overrides the redirect port (the auth flow uses the port it listens on). */
+  redirectPort?: number;
+}
+
+export class BridgeOAuthProvider implements OAuthClientProvider {
+  private pendingState?: string;
+
+  constructor(
+    readonly serverName: string,
+    readonly serverUrl: string,
+    private readonly config: OAuthConfig,
+    private readonly store: TokenStore,
+    private readonly options: OAuthProviderOptions = {}
+  ) {}
+
+  get redirectUrl(): string {
+    const port = this.options.redirectPort ?? this.config.redirectPort ?? DEFAULT_REDIRECT_PORT;
+    return `http://127.0.0.1:${port}/callback`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: `OpenClaw MCP Bridge (${this.serverName})`,
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: this.config.clientSecret ? "client_secret_post" : "none",
+      ...(this.config.scope ? { scope: this.config.scope } : {}),
+    };
+  }
+
+  state(): string {
+    this.pendingState = randomBytes(16).toString("hex");
+    return this.pendingState;
+  }
+
+  /** The state sent with the last authorization request. */
+  expectedState(): string | undefined {
+    return this.pendingState;
+  }
+
+  clientInformation(): OAuthClientInformationMixed | undefined {
+    if (this.config.clientId) {
+      return {
+        client_id: this.config.clientId,
+        ...(this.config.clientSecret ? { client_secret: this.config.clientSecret } : {}),
+      };
+    }
+    return this.store.get(this.serverName, this.serverUrl)?.clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationMixed): void {
+    this.store.update(this.serverName, this.serverUrl, { clientInformation });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this.store.get(this.serverName, this.serverUrl)?.tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this.store.update(this.serverName, this.serverUrl, { tokens });
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (!this.options.onRedirect) {
+      throw new OAuthRequiredError(this.serverName);
+    }
+    await this.options.onRedirect(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.store.update(this.serverName, this.serverUrl, { codeVerifier });
+  }
+
+  codeVerifier(): string {
+    const verifier = this.store.get(this.serverName, this.serverUrl)?.codeVerifier;
+    if (!verifier) throw new Error(`No PKCE code verifier saved for ${this.serverName}`);
+    return verifier;
+  }
+
+  invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): void {
+    if (scope === "all") {
+      this.store.delete(this.serverName);
+      return;
+    }
+    const key = scope === "client" ? "clientInformation" : scope === "tokens" ? "tokens" : "codeVerifier";
+    this.store.update(this.serverName, this.serverUrl, { [key]: undefined });
+  }
+}
+
+export class OAuthRequiredError extends Error {
+  constructor(readonly serverName: string) {
+    super(
+      `${serverName} requires OAuth authorization. Run \`npx tsx discover.ts auth ${serverName}\` in the plugin directory.`
+    );
+    this.name = "OAuthRequiredError";
+  }
+}
+
+/** Provider for non-interactive use (gateway, discovery); undefined without `oauth`. */
+export function createOAuthProvider(
+  serverName: string,
+  serverUrl: string,
+  serverConfig: ServerConfig,
+  store: TokenStore = new TokenStore()
+): BridgeOAuthProvider | undefined {
+  const config = getOAuthConfig(serverConfig);
+  return config ? new BridgeOAuthProvider(serverName, serverUrl, config, store) : undefined;
+}
+
+// ---- Interactive flow ----
+
+/** Wait for one `GET /callback?code=…&state=…` on the loopback listener. */
+function waitForCallback(
+  server: http.Server,
+  expectedState: () => string | undefined,
+  timeoutMs: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`No authorization callback within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    server.on("request", (req, res) => {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      if (url.pathname !== "/callback") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+      const state = url.searchParams.get("state");
+      let failure: string | undefined;
+      if (error) {
+        failure = `Authorization failed: ${error}${url.searchParams.get("error_description") ? ` (${url.searchParams.get("error_description")})` : ""}`;
+      } else if (!code) {
+        failure = "Authorization callback is missing the code";
+      } else if (state !== expectedState()) {
+        failure = "Authorization callback state does not match";
+      }
+
+      res.writeHead(failure ? 400 : 200, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end(failure ?? "Authorization complete. You can close this window.");
+      clearTimeout(timer);
+      if (failure) reject(new Error(failure));
+      else resolve(code!);
+    });
+  });
+}
+
+/**
+ * Authorize one server interactively: discover metadata, register the client
+ * if needed, send the user to the authorization URL (`openUrl`) and exchange
+ * the code delivered to the loopback redirect for tokens.
+ * Returns "already-authorized" when stored tokens are still usable.
+ */
+export async function runAuthorizationFlow(
+  serverName: string,
+  serverUrl: string,
+  serverConfig: ServerConfig,
+  opts: {
+    store?: TokenStore;
+    openUrl: (url: URL) => void | Promise<void>;
+    timeoutMs?: number;
+  }
+): Promise<"authorized" | "already-authorized"> {
+  const config = getOAuthConfig(serverConfig) ?? {};
+
+  const listener = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    listener.once("error", reject);
+    listener.listen(config.redirectPort ?? DEFAULT_REDIRECT_PORT, "127.0.0.1", () => resolve());
+  });
+
+  try {
+    const port = (listener.address() as { port: number }).port;
+    const provider = new BridgeOAuthProvider(
+      serverName,
+      serverUrl,
+      config,
+      opts.store ?? new TokenStore(),
+      { redirectPort: port, onRedirect: opts.openUrl }
+    );
+
+    const callback = waitForCallback(
+      listener,
+      () => provider.expectedState(),
+      opts.timeoutMs ?? AUTH_TIMEOUT_MS
+    );
+    // Unused when stored tokens are still valid
+    callback.catch(() => {});
+
+    const first = await auth(provider, { serverUrl, scope: config.scope });
+    if (first === "AUTHORIZED") return "already-authorized";
+
+    const code = await callback;
+    const result = await auth(provider, { serverUrl, authorizationCode: code, scope: config.scope });
+    if (result !== "AUTHORIZED") {
+      throw new Error(`Authorization for ${serverName} did not complete`);
+    }
+    return "authorized";
+  } finally {
+    listener.close();
+    listener.closeAllConnections();
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Connection manager for the plugin's MCP clients.
+ *
+ * Connections are opened lazily (or eagerly with `connectOnStart`), shared
+ * between concurrent callers, and watched:
+ * - a periodic MCP `ping` detects hung servers (`pingIntervalMs`)
+ * - `onclose`/`onerror` detect dead transports (e.g. a crashed stdio child);
+ *   servers used in the last few minutes are reconnected proactively
+ * - unexpected closes and failed pings count against the circuit breaker,
+ *   so a server that crashes right after connecting stops being respawned
+ * - connections idle longer than `idleTimeoutMs` are closed and respawned on
+ *   the next call; transient ones (per-agent keys) default to a 10 minute
+ *   idle timeout and are forgotten once closed, so they cannot pile up
+ * Each server also carries a circuit breaker and counters for status output.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { getConnectedTransport } from "./connect.js";
+import {
+  CircuitBreaker,
+  classifyError,
+  ServerConfigError,
+  type CircuitState,
+} from "./retry.js";
+import type { Logger, ServerConfig } from "./types.js";
+
+// ---- Types ----
+
+export type ConnectionState = "idle" | "connecting" | "connected" | "failed" | "closed";
+
+export interface ToolCallStats {
+  calls: number;
+  failures: number;
+  totalMs: number;
+  maxMs: number;
+  lastCallAt?: string;
+}
+
+export interface ConnectionStats {
+  server: string;
+  state: ConnectionState;
+  circuit: CircuitState;
+  /** Transport of the current/last connection (stdio, streamable-http, sse). */
+  transport?: string;
+  /** ISO timestamp of the current connection. */
+  connectedSince?: string;
+  lastUsedAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  calls: number;
+  failures: number;
+  reconnects: number;
+  /** Per MCP tool name. */
+  tools: Record<string, ToolCallStats>;
+}
+
+export interface ConnectionManagerOptions {
+  servers: Record<string, ServerConfig>;
+  logger: Logger;
+  /** Open and initialize a client (notification handlers included). */
+  connect: (serverName: string, serverConfig: ServerConfig) => Promise<Client>;
+  /** Servers that must stay connected even when idle (e.g. live subscriptions). */
+  keepAlive?: (serverName: string) => boolean;
+  /** Connections that are evicted when idle instead of kept around. */
+  transient?: (serverName: string) => boolean;
+  /** Called after a transient connection was evicted. */
+  onEvict?: (serverName: string) => void;
+  now?: () => number;
+}
+
+export const DEFAULT_PING_INTERVAL_MS = 60_000;
+export const DEFAULT_TRANSIENT_IDLE_TIMEOUT_MS = 10 * 60_000;
+
+// How often health and idle checks run
+const TICK_MS = 5_000;
+// Delay before reconnecting after a transport died
+const RECONNECT_DELAY_MS = 1_000;
+// Upper bound for a single health ping
+const MAX_PING_TIMEOUT_MS = 10_000;
+// Lost connections are only re-opened proactively if used this recently
+const RECONNECT_RECENT_USE_MS = 5 * 60_000;
+
+interface Connection {
+  stats: ConnectionStats;
+  client?: Client;
+  pending?: Promise<Client>;
+  breaker: CircuitBreaker;
+  lastUsed: number;
+  lastPing: number;
+  /** Set while the manager itself closes the client. */
+  closing: boolean;
+}
+
+// ---- Manager ----
+
+export class ConnectionManager {
+  private readonly connections = new Map<string, Connection>();
+  private readonly now: () => number;
+  private timer?: ReturnType<typeof setInterval>;
+  private stopped = false;
+
+  constructor(private readonly options: ConnectionManagerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  private entry(serverName: string): Connection {
+    let conn = this.connections.get(serverName);
+    if (!conn) {
+      conn = {
+        stats: {
+          server: serverName,
+          state: "idle",
+          circuit: "closed",
+          calls: 0,
+          failures: 0,
+          reconnects: 0,
+          tools: {},
+        },
+        breaker: new CircuitBreaker(serverName, this.options.servers[serverName]?.circuitBreaker, this.now),
+        lastUsed: 0,
+        lastPing: 0,
+        closing: false,
+      };
+      this.connections.set(serverName, conn);
+    }
+    return conn;
+  }
+
+  breaker(serverName: string): CircuitBreaker {
+    return this.entry(serverName).breaker;
+  }
+
+  /** The server's client if it is connected; never connects. */
+  peek(serverName: string): Client | undefined {
+    return this.connections.get(serverName)?.client;
+  }
+
+  /** The server's client, connecting if needed. Concurrent callers share one connect. */
+  async get(serverName: string): Promise<Client> {
+    const conn = this.entry(serverName);
+    conn.lastUsed = this.now();
+    conn.stats.lastUsedAt = new Date(conn.lastUsed).toISOString();
+    return this.open(serverName, conn);
+  }
+
+  /** Connect without counting as use (reconnects must not look like activity). */
+  private async open(serverName: string, conn: Connection): Promise<Client> {
+    if (conn.client) return conn.client;
+    if (conn.pending) return conn.pending;
+
+    const serverConfig = this.options.servers[serverName];
+    if (!serverConfig) {
+      throw new ServerConfigError(`No config for MCP server '${serverName}'`);
+    }
+
+    // Fail fast while the server's circuit is open
+    conn.breaker.check();
+
+    conn.stats.state = "connecting";
+    conn.pending = this.options.connect(serverName, serverConfig);
+
+    try {
+      const client = await conn.pending;
+      if (conn.stats.connectedSince) conn.stats.reconnects++;
+      this.attach(serverName, conn, client);
+      // Only calls and pings reset the failure count; connecting is not enough
+      conn.breaker.recordConnected();
+      return client;
+    } catch (err) {
+      // A broken config is not an unhealthy server
+      if (classifyError(err) !== "config") conn.breaker.recordFailure(err);
+      this.recordError(conn, err);
+      conn.stats.state = "failed";
+      throw err;
+    } finally {
+      conn.pending = undefined;
+      conn.stats.circuit = conn.breaker.state;
+    }
+  }
+
+  private attach(serverName: string, conn: Connection, client: Client): void {
+    conn.client = client;
+    conn.closing = false;
+    conn.lastPing = this.now();
+    conn.stats.state = "connected";
+    conn.stats.connectedSince = new Date(this.now()).toISOString();
+    conn.stats.transport = getConnectedTransport(client) ?? conn.stats.transport;
+
+    client.onerror = (err) => {
+      this.recordError(conn, err);
+    };
+    client.onclose = () => {
+      // Closed by drop()/stop(), which already updated the state
+      if (conn.client !== client || conn.closing || this.stopped) return;
+      conn.client = undefined;
+
+      conn.stats.state = "failed";
+      const err = new Error("connection closed unexpectedly");
+      this.recordError(conn, err);
+      conn.breaker.recordFailure(err);
+      conn.stats.circuit = conn.breaker.state;
+      const reconnect = this.shouldReconnect(serverName, conn);
+      this.options.logger.warn(
+        `mcp-bridge: ${serverName} connection closed unexpectedly${reconnect ? "; reconnecting" : ""}`
+      );
+      if (reconnect) this.reconnectSoon(serverName, conn);
+    };
+  }
+
+  /** Recently used (or kept alive) servers with a closed circuit. */
+  private shouldReconnect(serverName: string, conn: Connection): boolean {
+    if (conn.breaker.state === "open") return false;
+    return (
+      this.now() - conn.lastUsed < RECONNECT_RECENT_USE_MS ||
+      this.options.keepAlive?.(serverName) === true
+    );
+  }
+
+  private reconnectSoon(serverName: string, conn: Connection): void {
+    setTimeout(() => {
+      if (this.stopped) return;
+      this.open(serverName, conn).catch((err: any) => {
+        this.options.logger.warn(
+          `mcp-bridge: ${serverName} reconnect failed: ${err?.message ?? String(err)}`
+        );
+      });
+    }, RECONNECT_DELAY_MS).unref?.();
+  }
+
+  private recordError(conn: Connection, err: unknown): void {
+    conn.stats.lastError = (err as any)?.message ?? String(err);
+    conn.stats.lastErrorAt = new Date(this.now()).toISOString();
+  }
+
+  /** Count a bridged call attempt and its latency; failures also record the error. */
+  recordCall(serverName: string, call: { tool: string; durationMs: number; error?: unknown }): void {
+    const conn = this.entry(serverName);
+    const tool = (conn.stats.tools[call.tool] ??= { calls: 0, failures: 0, totalMs: 0, maxMs: 0 });
+
+    conn.stats.calls++;
+    tool.calls++;
+    tool.totalMs += call.durationMs;
+    tool.maxMs = Math.max(tool.maxMs, call.durationMs);
+    tool.lastCallAt = new Date(this.now()).toISOString();
+
+    if (call.error !== undefined) {
+      conn.stats.failures++;
+      tool.failures++;
+      this.recordError(conn, call.error);
+    }
+  }
+
+  /** Close a (presumably dead) connection so the next call reconnects. */
+  drop(serverName: string): void {
+    const conn = this.connections.get(serverName);
+    const client = conn?.client;
+    if (!conn || !client) return;
+
+    conn.closing = true;
+    conn.client = undefined;
+    conn.stats.state = "closed";
+    client.close().catch(() => {
+      // ignore
+    });
+  }
+
+  /** Ping open connections that are due; a failed ping drops and reconnects. */
+  async checkHealth(): Promise<void> {
+    await Promise.all(
+      [...this.connections].map(async ([serverName, conn]) => {
+        const client = conn.client;
+        const interval = this.options.servers[serverName]?.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS;
+        if (!client || interval <= 0 || this.now() - conn.lastPing < interval) return;
+
+        conn.lastPing = this.now();
+        try {
+          await client.ping({ timeout: Math.min(interval, MAX_PING_TIMEOUT_MS) });
+          if (conn.client === client) conn.breaker.recordSuccess();
+        } catch (err: any) {
+          if (conn.client !== client) return;
+          this.recordError(conn, err);
+          conn.breaker.recordFailure(err);
+          conn.stats.circuit = conn.breaker.state;
+          const reconnect = this.shouldReconnect(serverName, conn);
+          this.options.logger.warn(
+            `mcp-bridge: ${serverName} failed health check (${err?.message ?? String(err)})${reconnect ? "; reconnecting" : ""}`
+          );
+          this.drop(serverName);
+          conn.stats.state = "failed";
+          if (reconnect) this.reconnectSoon(serverName, conn);
+        }
+      })
+    );
+  }
+
+  /**
+   * Close connections unused for longer than their `idleTimeoutMs`. Transient
+   * connections are also forgotten (stats and breaker included).
+   */
+  closeIdle(): void {
+    for (const [serverName, conn] of this.connections) {
+      const transient = this.options.transient?.(serverName) === true;
+      const idleTimeout =
+        this.options.servers[serverName]?.idleTimeoutMs ??
+        (transient ? DEFAULT_TRANSIENT_IDLE_TIMEOUT_MS : undefined);
+      if (!idleTimeout || conn.pending || this.now() - conn.lastUsed < idleTimeout) continue;
+      if (!conn.client && !transient) continue;
+      if (this.options.keepAlive?.(serverName)) continue;
+
+      if (conn.client) {
+        this.options.logger.info(
+          `mcp-bridge: ${serverName} idle for ${Math.round((this.now() - conn.lastUsed) / 1000)}s; disconnecting`
+        );
+        this.drop(serverName);
+        conn.stats.state = "idle";
+      }
+      if (transient) {
+        this.connections.delete(serverName);
+        this.options.onEvict?.(serverName);
+      }
+    }
+  }
+
+  /** Start health/idle checks and connect `connectOnStart` servers. */
+  start(): void {
+    this.stopped = false;
+    this.timer ??= setInterval(() => {
+      this.closeIdle();
+      this.checkHealth().catch(() => {
+        // failures are handled per connection
+      });
+    }, TICK_MS);
+    this.timer.unref?.();
+
+    for (const [serverName, serverConfig] of Object.entries(this.options.servers)) {
+      if (!serverConfig.connectOnStart || serverConfig.enabled === false) continue;
+      this.get(serverName).catch((err: any) => {
+        this.options.logger.warn(
+          `mcp-bridge: ${serverName} failed to connect on start: ${err?.message ?? String(err)}`
+        );
+      });
+    }
+  }
+
+  /** Stop timers and close every connection. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+
+    for (const [serverName, conn] of this.connections) {
+      const client = conn.client;
+      if (!client) continue;
+      conn.closing = true;
+      conn.client = undefined;
+      conn.stats.state = "closed";
+      try {
+        await client.close();
+        this.options.logger.info(`mcp-bridge: disconnected from ${serverName}`);
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  stats(): ConnectionStats[] {
+    return [...this.connections.values()].map((conn) => ({
+      ...conn.stats,
+      circuit: conn.breaker.state,
+      tools: structuredClone(conn.stats.tools),
+    }));
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Progress notifications for long-running tool calls.
+ *
+ * Passing an `onprogress` handler makes the SDK attach a progress token to
+ * `tools/call`. Each `notifications/progress` is forwarded to the host's
+ * `onUpdate` callback (when it has one) and logged, throttled so a chatty
+ * server does not flood the gateway log.
+ */
+
+import type { Logger } from "./types.js";
+
+// ---- Types ----
+
+export interface ProgressInfo {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/** Partial-result callback passed by hosts that support streaming updates. */
+export type ToolUpdateCallback = (partial: {
+  content: Array<{ type: "text"; text: string }>;
+  details?: Record<string, unknown>;
+}) => void;
+
+// Minimum gap between progress log lines for one call
+const LOG_INTERVAL_MS = 5000;
+
+// ---- Helpers ----
+
+export function formatProgress(label: string, info: ProgressInfo): string {
+  let amount: string;
+  if (info.total !== undefined && info.total > 0) {
+    const percent = Math.min(100, Math.round((info.progress / info.total) * 100));
+    amount = `${info.progress}/${info.total} (${percent}%)`;
+  } else {
+    amount = String(info.progress);
+  }
+  return `${label}: progress ${amount}${info.message ? ` — ${info.message}` : ""}`;
+}
+
+/**
+ * Build the SDK `onprogress` handler for one call. `label` identifies the
+ * call in messages, e.g. `github/run_build`.
+ */
+export function createProgressHandler(opts: {
+  label: string;
+  logger: Logger;
+  onUpdate?: ToolUpdateCallback;
+  now?: () => number;
+}): (info: ProgressInfo) => void {
+  const { label, logger, onUpdate } = opts;
+  const now = opts.now ?? Date.now;
+  let lastLog = -Infinity;
+
+  return (info) => {
+    const text = formatProgress(label, info);
+
+    if (now() - lastLog >= LOG_INTERVAL_MS) {
+      lastLog = now();
+      logger.info(`mcp-bridge: ${text}`);
+    }
+
+    if (onUpdate) {
+      try {
+        onUpdate({
+          content: [{ type: "text", text }],
+          details: { progress: info.progress, total: info.total, message: info.message },
+        });
+      } catch {
+        // a failing host callback must not break the call
+      }
+    }
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * MCP prompts → agent tools.
+ *
+ * Each prompt from `prompts/list` is registered as a bridged tool that calls
+ * `prompts/get` and returns the rendered messages as text/image content.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+// ---- Types ----
+
+export interface CachedPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface CachedPrompt {
+  name: string;
+  description?: string;
+  arguments?: CachedPromptArgument[];
+}
+
+type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
+interface ToolResult {
+  content: ToolContent[];
+  isError: boolean;
+}
+
+// ---- Helpers ----
+
+/** Build a JSON schema for the prompt's (string-only) arguments. */
+export function promptParameters(prompt: CachedPrompt): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  for (const arg of prompt.arguments ?? []) {
+    properties[arg.name] = {
+      type: "string",
+      ...(arg.description ? { description: arg.description } : {}),
+    };
+    if (arg.required) required.push(arg.name);
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Render `prompts/get` messages into OpenClaw tool content. Text messages are
+ * labelled with their role; images pass through; embedded resources unwrap.
+ */
+export function renderPromptMessages(
+  messages: Array<{ role: string; content: any }>,
+  description?: string
+): ToolContent[] {
+  const content: ToolContent[] = [];
+  if (description) {
+    content.push({ type: "text", text: description });
+  }
+
+  for (const message of messages) {
+    const item = message.content ?? {};
+    switch (item.type) {
+      case "text":
+        content.push({ type: "text", text: `[${message.role}] ${item.text}` });
+        break;
+      case "image":
+        content.push({ type: "image", data: item.data, mimeType: item.mimeType });
+        break;
+      case "resource":
+        content.push({
+          type: "text",
+          text: `[${message.role}] ${item.resource?.text ?? JSON.stringify(item.resource)}`,
+        });
+        break;
+      case "resource_link":
+        content.push({
+          type: "text",
+          text: `[${message.role}] (resource: ${item.uri}${item.name ? ` — ${item.name}` : ""})`,
+        });
+        break;
+      default:
+        content.push({
+          type: "text",
+          text: `[${message.role}] (${item.type ?? "unknown"} content omitted)`,
+        });
+    }
+  }
+
+  return content;
+}
+
+// ---- Tools ----
+
+export interface PromptToolOptions {
+  serverName: string;
+  prompt: CachedPrompt;
+  /** Agent tool name for the prompt (already sanitized/prefixed). */
+  toolName: string;
+  getClient: (serverName: string) => Promise<Client>;
+}
+
+export function createPromptTool(opts: PromptToolOptions) {
+  const { serverName, prompt, toolName, getClient } = opts;
+
+  const description = [
+    prompt.description ?? `MCP prompt from ${serverName}`,
+    `Returns the rendered prompt messages.`,
+    `(MCP prompt: ${serverName}/${prompt.name})`,
+  ].join(" ");
+
+  return {
+    name: toolName,
+    description,
+    parameters: promptParameters(prompt),
+
+    async execute(_toolCallId: string, params: Record<string, unknown>): Promise<ToolResult> {
+      const args: Record<string, string> = {};
+      for (const [k, v] of Object.entries(params ?? {})) {
+        if (v === undefined || v === null) continue;
+        args[k] = typeof v === "string" ? v : JSON.stringify(v);
+      }
+
+      const missing = (prompt.arguments ?? [])
+        .filter((a) => a.required && args[a.name] === undefined)
+        .map((a) => a.name);
+      if (missing.length > 0) {
+        return {
+          content: [
+            { type: "text", text: `Missing required prompt argument(s): ${missing.join(", ")}` },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        const client = await getClient(serverName);
+        const result = await client.getPrompt({ name: prompt.name, arguments: args });
+        const content = renderPromptMessages(result.messages ?? [], result.description);
+        return {
+          content: content.length > 0
+            ? content
+            : [{ type: "text", text: `(prompt ${prompt.name} returned no messages)` }],
+          isError: false,
+        };
+      } catch (err: any) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `MCP error (${serverName}/prompts/get ${prompt.name}): ${err?.message ?? String(err)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
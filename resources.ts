@@ -0,0 +1,341 @@
+/**
+ * MCP resources → agent tools.
+ *
+ * Servers that publish data through `resources/list`, `resources/templates/list`
+ * and `resources/read` get a small set of synthetic per-server tools:
+ * - `<server>_list_resources`  — cached resources and templates (+ live refresh)
+ * - `<server>_read_resource`   — read a concrete URI or expand a template
+ * - `<server>_subscribe_resource` — (un)subscribe when the server supports it
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+
+// ---- Types ----
+
+export interface CachedResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface CachedResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface ResourceEntry {
+  server: string;
+  resources?: CachedResource[];
+  resourceTemplates?: CachedResourceTemplate[];
+  capabilities?: { resources?: { subscribe?: boolean } };
+}
+
+/** Per-server subscription bookkeeping, shared with the connection pool. */
+export interface ResourceSubscriptions {
+  subscribed: Set<string>;
+  updated: Set<string>;
+}
+
+export type ToolContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string };
+
+interface ToolResult {
+  content: ToolContent[];
+  isError: boolean;
+}
+
+// ---- Helpers ----
+
+/**
+ * Expand a cached resource template with the given variables.
+ * Throws if the template is unknown or a variable is missing.
+ */
+export function expandResourceTemplate(
+  templates: CachedResourceTemplate[],
+  uriTemplate: string,
+  variables: Record<string, unknown>
+): string {
+  const known = templates.find((t) => t.uriTemplate === uriTemplate);
+  if (!known) {
+    const available = templates.map((t) => t.uriTemplate).join(", ") || "(none)";
+    throw new Error(`Unknown resource template '${uriTemplate}'. Available: ${available}`);
+  }
+
+  const template = new UriTemplate(uriTemplate);
+  const missing = template.variableNames.filter(
+    (name) => variables[name] === undefined || variables[name] === ""
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing template variable(s) for ${uriTemplate}: ${missing.join(", ")}`
+    );
+  }
+
+  const stringVars: Record<string, string | string[]> = {};
+  for (const [k, v] of Object.entries(variables)) {
+    stringVars[k] = Array.isArray(v) ? v.map(String) : String(v);
+  }
+
+  const uri = template.expand(stringVars);
+  if (!template.match(uri)) {
+    throw new Error(`Expanded URI '${uri}' does not match template ${uriTemplate}`);
+  }
+  return uri;
+}
+
+/** Reject URIs that still contain unexpanded template expressions. */
+export function validateResourceUri(uri: string): void {
+  if (!uri) {
+    throw new Error("Resource URI must not be empty");
+  }
+  if (UriTemplate.isTemplate(uri)) {
+    throw new Error(
+      `'${uri}' is a URI template, not a resource URI. Pass 'template' and 'arguments' instead.`
+    );
+  }
+}
+
+export function formatResourceList(
+  resources: CachedResource[],
+  templates: CachedResourceTemplate[],
+  subscriptions?: ResourceSubscriptions
+): string {
+  const lines: string[] = [];
+
+  lines.push(`Resources (${resources.length}):`);
+  for (const r of resources) {
+    const flags: string[] = [];
+    if (r.mimeType) flags.push(r.mimeType);
+    if (subscriptions?.subscribed.has(r.uri)) flags.push("subscribed");
+    if (subscriptions?.updated.has(r.uri)) flags.push("updated");
+    const suffix = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
+    const desc = r.description ? ` — ${r.description}` : "";
+    lines.push(`- ${r.uri} (${r.name})${suffix}${desc}`);
+  }
+
+  if (templates.length > 0) {
+    lines.push("", `Resource templates (${templates.length}):`);
+    for (const t of templates) {
+      const vars = new UriTemplate(t.uriTemplate).variableNames.join(", ");
+      const desc = t.description ? ` — ${t.description}` : "";
+      lines.push(`- ${t.uriTemplate} (${t.name}; variables: ${vars || "none"})${desc}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Inline an image blob whatever its size, as tool-result images are, or
+ * summarize any other blob so the agent never sees a giant base64 dump.
+ * `label` names the payload in the summary, e.g. "binary resource file:///a.pdf".
+ */
+export function blobToToolContent(label: string, blob: string, mimeType: string): ToolContent {
+  if (mimeType.startsWith("image/")) {
+    return { type: "image", data: blob, mimeType };
+  }
+
+  const bytes = Math.floor((blob.length * 3) / 4);
+  return { type: "text", text: `[${label}: ${mimeType}, ~${bytes} bytes not inlined]` };
+}
+
+/**
+ * Convert `resources/read` contents into OpenClaw tool content.
+ * OC only renders text and image, so other blobs become a short summary.
+ */
+export function resourceContentsToToolContent(
+  contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>
+): ToolContent[] {
+  return contents.map((item) => {
+    if (typeof item.text === "string") {
+      return { type: "text" as const, text: item.text };
+    }
+    return blobToToolContent(
+      `binary resource ${item.uri}`,
+      item.blob ?? "",
+      item.mimeType ?? "application/octet-stream"
+    );
+  });
+}
+
+/** Synthetic tool suffixes registered for a server (empty if it has no resources). */
+export function resourceToolSuffixes(entry: ResourceEntry): string[] {
+  const hasResources =
+    (entry.resources?.length ?? 0) > 0 || (entry.resourceTemplates?.length ?? 0) > 0;
+  if (!hasResources) return [];
+
+  const suffixes = ["list_resources", "read_resource"];
+  if (entry.capabilities?.resources?.subscribe) suffixes.push("subscribe_resource");
+  return suffixes;
+}
+
+function errorResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+// ---- Tools ----
+
+export interface ResourceToolOptions {
+  serverName: string;
+  /** Builds the agent tool name, e.g. `list_resources` → `ai_todo_list_resources`. */
+  toolName: (suffix: string) => string;
+  entry: ResourceEntry;
+  getClient: (serverName: string) => Promise<Client>;
+  subscriptions: ResourceSubscriptions;
+}
+
+export function createResourceTools(opts: ResourceToolOptions) {
+  const { serverName, toolName, entry, getClient, subscriptions } = opts;
+  const templates = entry.resourceTemplates ?? [];
+
+  const tools: any[] = [
+    {
+      name: toolName("list_resources"),
+      description: `List resources and resource templates published by MCP server ${serverName}. Set refresh=true to query the server instead of the cache. (MCP: ${serverName}/resources/list)`,
+      parameters: {
+        type: "object",
+        properties: {
+          refresh: {
+            type: "boolean",
+            description: "Re-list resources from the live server",
+          },
+        },
+      },
+      async execute(_toolCallId: string, params: Record<string, unknown>): Promise<ToolResult> {
+        let resources = entry.resources ?? [];
+        let liveTemplates = templates;
+
+        if (params?.refresh === true) {
+          try {
+            const client = await getClient(serverName);
+            const listed = await client.listResources();
+            resources = listed.resources.map((r) => ({
+              uri: r.uri,
+              name: r.name,
+              description: r.description,
+              mimeType: r.mimeType,
+            }));
+            const listedTemplates = await client.listResourceTemplates();
+            liveTemplates = listedTemplates.resourceTemplates.map((t) => ({
+              uriTemplate: t.uriTemplate,
+              name: t.name,
+              description: t.description,
+              mimeType: t.mimeType,
+            }));
+          } catch (err: any) {
+            return errorResult(
+              `MCP error (${serverName}/resources/list): ${err?.message ?? String(err)}`
+            );
+          }
+        }
+
+        return {
+          content: [
+            { type: "text", text: formatResourceList(resources, liveTemplates, subscriptions) },
+          ],
+          isError: false,
+        };
+      },
+    },
+    {
+      name: toolName("read_resource"),
+      description: `Read a resource from MCP server ${serverName}. Pass either 'uri', or 'template' plus 'arguments' to expand a resource template. (MCP: ${serverName}/resources/read)`,
+      parameters: {
+        type: "object",
+        properties: {
+          uri: { type: "string", description: "Concrete resource URI" },
+          template: {
+            type: "string",
+            description: "URI template from list_resources (e.g. file:///{path})",
+          },
+          arguments: {
+            type: "object",
+            description: "Template variables",
+            additionalProperties: { type: "string" },
+          },
+        },
+      },
+      async execute(_toolCallId: string, params: Record<string, unknown>): Promise<ToolResult> {
+        let uri: string;
+        try {
+          if (typeof params?.template === "string") {
+            uri = expandResourceTemplate(
+              templates,
+              params.template,
+              (params.arguments as Record<string, unknown>) ?? {}
+            );
+          } else {
+            uri = typeof params?.uri === "string" ? params.uri : "";
+            validateResourceUri(uri);
+          }
+        } catch (err: any) {
+          return errorResult(err.message);
+        }
+
+        try {
+          const client = await getClient(serverName);
+          const result = await client.readResource({ uri });
+          subscriptions.updated.delete(uri);
+          const content = resourceContentsToToolContent(result.contents ?? []);
+          return {
+            content: content.length > 0
+              ? content
+              : [{ type: "text", text: `(resource ${uri} is empty)` }],
+            isError: false,
+          };
+        } catch (err: any) {
+          return errorResult(
+            `MCP error (${serverName}/resources/read ${uri}): ${err?.message ?? String(err)}`
+          );
+        }
+      },
+    },
+  ];
+
+  if (entry.capabilities?.resources?.subscribe) {
+    tools.push({
+      name: toolName("subscribe_resource"),
+      description: `Subscribe to (or unsubscribe from) update notifications for a resource on MCP server ${serverName}. Updated resources are flagged in list_resources. (MCP: ${serverName}/resources/subscribe)`,
+      parameters: {
+        type: "object",
+        properties: {
+          uri: { type: "string", description: "Concrete resource URI" },
+          unsubscribe: { type: "boolean", description: "Stop watching the resource" },
+        },
+        required: ["uri"],
+      },
+      async execute(_toolCallId: string, params: Record<string, unknown>): Promise<ToolResult> {
+        const uri = typeof params?.uri === "string" ? params.uri : "";
+        try {
+          validateResourceUri(uri);
+        } catch (err: any) {
+          return errorResult(err.message);
+        }
+
+        try {
+          const client = await getClient(serverName);
+          if (params.unsubscribe === true) {
+            await client.unsubscribeResource({ uri });
+            subscriptions.subscribed.delete(uri);
+            subscriptions.updated.delete(uri);
+            return { content: [{ type: "text", text: `Unsubscribed from ${uri}` }], isError: false };
+          }
+          await client.subscribeResource({ uri });
+          subscriptions.subscribed.add(uri);
+          return { content: [{ type: "text", text: `Subscribed to ${uri}` }], isError: false };
+        } catch (err: any) {
+          return errorResult(
+            `MCP error (${serverName}/resources/subscribe ${uri}): ${err?.message ?? String(err)}`
+          );
+        }
+      },
+    });
+  }
+
+  return tools;
+}
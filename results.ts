@@ -0,0 +1,159 @@
+/**
+ * MCP `tools/call` results → OpenClaw tool results.
+ *
+ * OpenClaw only renders `text` and `image` content. Everything else MCP can
+ * return is converted here:
+ * - `resource` (embedded): text as-is, blobs via {@link blobToToolContent}
+ * - `resource_link`: a readable reference, or the resource itself when
+ *   auto-fetch is enabled
+ * - `image`: passed through unchanged, whatever its size
+ * - `audio`: a size summary, never a base64 dump
+ * - `structuredContent`: pretty JSON when there is no text content, checked
+ *   against the tool's `outputSchema`
+ */
+
+import type {
+  CallToolResult,
+  CompatibilityCallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  blobToToolContent,
+  resourceContentsToToolContent,
+  type ToolContent,
+} from "./resources.js";
+import type { ValidationError } from "./validate.js";
+
+// ---- Types ----
+
+type ResourceContents = Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+
+export interface ConvertResultOptions {
+  /** Checks `structuredContent` against the tool's outputSchema. */
+  validateOutput?: ((value: unknown) => ValidationError[]) | null;
+  /** Reads a linked resource; when set, `resource_link` items are fetched inline. */
+  readResource?: (uri: string) => Promise<ResourceContents>;
+}
+
+export interface ConvertedResult {
+  content: ToolContent[];
+  isError: boolean;
+  details?: {
+    structuredContent?: unknown;
+    outputSchemaErrors?: ValidationError[];
+  };
+}
+
+// ---- Helpers ----
+
+export function formatResourceLink(item: {
+  uri: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}): string {
+  const label = item.title ?? item.name;
+  const flags = [item.mimeType, item.size !== undefined ? `${item.size} bytes` : undefined]
+    .filter(Boolean)
+    .join(", ");
+  return (
+    `[resource link] ${label ? `${label}: ` : ""}${item.uri}` +
+    (flags ? ` (${flags})` : "") +
+    (item.description ? ` — ${item.description}` : "")
+  );
+}
+
+async function convertItem(item: any, opts: ConvertResultOptions): Promise<ToolContent[]> {
+  switch (item?.type) {
+    case "text":
+      return [{ type: "text", text: String(item.text ?? "") }];
+
+    case "image":
+      return [{ type: "image", data: String(item.data ?? ""), mimeType: item.mimeType ?? "image/png" }];
+
+    case "audio":
+      return [blobToToolContent("audio", item.data ?? "", item.mimeType ?? "audio/*")];
+
+    case "resource":
+      return item.resource ? resourceContentsToToolContent([item.resource]) : [];
+
+    case "resource_link": {
+      const reference: ToolContent = { type: "text", text: formatResourceLink(item) };
+      if (!opts.readResource) return [reference];
+      try {
+        const contents = await opts.readResource(item.uri);
+        return [reference, ...resourceContentsToToolContent(contents)];
+      } catch (err: any) {
+        return [
+          {
+            type: "text",
+            text: `${reference.text}\n(could not be read: ${err?.message ?? String(err)})`,
+          },
+        ];
+      }
+    }
+
+    default:
+      return [{ type: "text", text: JSON.stringify(item) }];
+  }
+}
+
+// ---- Conversion ----
+
+/** `callTool` also types the pre-2024-11-05 `{ toolResult }` shape. */
+function isCallToolResult(result: CompatibilityCallToolResult): result is CallToolResult {
+  return Array.isArray(result.content);
+}
+
+export async function convertToolResult(
+  response: CompatibilityCallToolResult,
+  opts: ConvertResultOptions = {}
+): Promise<ConvertedResult> {
+  const result: CallToolResult = isCallToolResult(response)
+    ? response
+    : { content: [{ type: "text", text: JSON.stringify(response.toolResult) }] };
+  const isError = result.isError === true;
+  const content: ToolContent[] = [];
+  for (const item of result.content ?? []) {
+    content.push(...(await convertItem(item, opts)));
+  }
+
+  const structured = result.structuredContent;
+  const details: NonNullable<ConvertedResult["details"]> = {};
+
+  if (structured !== undefined) {
+    details.structuredContent = structured;
+    // Servers should mirror structured output as text; render it if they don't
+    if (!content.some((c) => c.type === "text")) {
+      content.unshift({ type: "text", text: JSON.stringify(structured, null, 2) });
+    }
+  }
+
+  // Error results are exempt from the outputSchema
+  if (opts.validateOutput && !isError) {
+    const errors =
+      structured === undefined
+        ? [{ path: "/", message: "structuredContent is missing" }]
+        : opts.validateOutput(structured);
+    if (errors.length > 0) {
+      details.outputSchemaErrors = errors;
+      content.push({
+        type: "text",
+        text:
+          "Note: the structured result does not match the tool's outputSchema:\n" +
+          errors.map((e) => `- ${e.path}: ${e.message}`).join("\n"),
+      });
+    }
+  }
+
+  if (content.length === 0) {
+    content.push({ type: "text", text: "(the tool returned no content)" });
+  }
+
+  return {
+    content,
+    isError,
+    ...(Object.keys(details).length > 0 ? { details } : {}),
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Retry policy (exponential backoff + jitter) and per-server circuit breaker
+ * for bridged tool calls.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { OAuthRequiredError } from "./oauth.js";
+import { SecretResolutionError } from "./secrets.js";
+
+// ---- Types ----
+
+/**
+ * - `connection`: the transport is gone or never came up (closed, refused, reset)
+ * - `timeout`: the request timed out (MCP RequestTimeout)
+ * - `protocol`: the server answered with a JSON-RPC error (invalid params, ...)
+ * - `config`: the server config cannot be used as is (unresolvable secret,
+ *   missing OAuth authorization, unknown server); never retried
+ */
+export type ErrorClass = "connection" | "timeout" | "protocol" | "config";
+
+export interface RetryPolicy {
+  /** Total attempts including the first call (default: 2). */
+  maxAttempts?: number;
+  /** Delay before the first retry (default: 250). */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay (default: 5000). */
+  maxDelayMs?: number;
+  /** Backoff growth factor per attempt (default: 2). */
+  multiplier?: number;
+  /** Random jitter as a fraction of the delay, 0–1 (default: 0.2). */
+  jitter?: number;
+  /** Error classes that may be retried (default: ["connection"]). */
+  retryOn?: ErrorClass[];
+}
+
+export interface CircuitBreakerConfig {
+  /** Consecutive connection failures before the circuit opens (default: 5). */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call (default: 30000). */
+  cooldownMs?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+  maxAttempts: 2,
+  initialDelayMs: 250,
+  maxDelayMs: 5000,
+  multiplier: 2,
+  jitter: 0.2,
+  retryOn: ["connection"],
+};
+
+const DEFAULT_BREAKER: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+// Node socket errors that mean the connection itself failed
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENOENT",
+]);
+
+// ---- Retry ----
+
+export class ServerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerConfigError";
+  }
+}
+
+function isConfigError(err: unknown): boolean {
+  return (
+    err instanceof ServerConfigError ||
+    err instanceof SecretResolutionError ||
+    err instanceof OAuthRequiredError
+  );
+}
+
+export function resolveRetryPolicy(policy?: RetryPolicy): Required<RetryPolicy> {
+  return { ...DEFAULT_RETRY, ...(policy ?? {}) };
+}
+
+export function classifyError(err: unknown): ErrorClass {
+  if (isConfigError(err) || isConfigError((err as any)?.cause)) return "config";
+  if (err instanceof McpError) {
+    if (err.code === ErrorCode.RequestTimeout) return "timeout";
+    if (err.code === ErrorCode.ConnectionClosed) return "connection";
+    return "protocol";
+  }
+
+  const code = (err as any)?.code ?? (err as any)?.cause?.code;
+  if (typeof code === "string" && CONNECTION_ERROR_CODES.has(code)) {
+    return "connection";
+  }
+
+  // Anything that is not a JSON-RPC error came from the transport layer
+  // (e.g. "Not connected", fetch failures, HTTP/SSE errors).
+  return "connection";
+}
+
+export function isRetryable(errorClass: ErrorClass, policy: Required<RetryPolicy>): boolean {
+  // Retrying cannot fix the config, whatever retryOn says
+  return errorClass !== "config" && policy.retryOn.includes(errorClass);
+}
+
+/** Delay before retry number `attempt` (1 = first retry). */
+export function computeBackoff(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1)
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ---- Circuit breaker ----
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly serverName: string,
+    readonly failures: number,
+    readonly retryInMs: number,
+    readonly lastError?: string
+  ) {
+    super(
+      `MCP server ${serverName} is unavailable: circuit open after ${failures} consecutive connection failure(s); next attempt in ${Math.ceil(retryInMs / 1000)}s` +
+        (lastError ? `. Last error: ${lastError}` : "")
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Tracks consecutive connection failures for one server. After
+ * `failureThreshold` failures the circuit opens and calls fail fast; after
+ * `cooldownMs` a single trial call is let through (half-open). A success
+ * closes the circuit, a failure re-opens it.
+ */
+export class CircuitBreaker {
+  private readonly config: Required<CircuitBreakerConfig>;
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError?: string;
+  state: CircuitState = "closed";
+
+  constructor(
+    private readonly serverName: string,
+    config?: CircuitBreakerConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.config = { ...DEFAULT_BREAKER, ...(config ?? {}) };
+  }
+
+  /** Throws CircuitOpenError when calls must fail fast. */
+  check(): void {
+    if (this.state === "closed") return;
+
+    const elapsed = this.now() - this.openedAt;
+    if (this.state === "open" && elapsed >= this.config.cooldownMs) {
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(
+      this.serverName,
+      this.failures,
+      Math.max(0, this.config.cooldownMs - elapsed),
+      this.lastError
+    );
+  }
+
+  /**
+   * A connect succeeded. Ends a half-open trial but keeps the failure count,
+   * so a server that dies right after connecting still opens the circuit.
+   */
+  recordConnected(): void {
+    this.trialInFlight = false;
+    if (this.state === "half-open") this.state = "closed";
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.lastError = undefined;
+    this.state = "closed";
+  }
+
+  recordFailure(err: unknown): void {
+    this.failures++;
+    this.lastError = (err as any)?.message ?? String(err);
+    this.trialInFlight = false;
+
+    if (this.state === "half-open" || this.failures >= this.config.failureThreshold) {
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+}
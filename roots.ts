@@ -0,0 +1,91 @@
+/**
+ * MCP roots: the directories a server may work in.
+ *
+ * Servers with `roots` get the `roots` capability and their `roots/list`
+ * answered from config, so filesystem, git and search servers no longer need
+ * paths in `args`. Entries are paths or `file://` URIs with `${ENV}`
+ * references; `${workspace}` stands for the workspace of the agent using the
+ * connection. Such servers get one connection per workspace, so roots never
+ * leak between agents. When a connection's roots change (e.g. an `${ENV}`
+ * value), the server is sent `notifications/roots/list_changed` and re-lists.
+ */
+
+import type { Root } from "@modelcontextprotocol/sdk/types.js";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { resolveEnvVars } from "./connect.js";
+import type { Logger, ServerConfig } from "./types.js";
+
+// ---- Types ----
+
+/** A path or URI, optionally with a display name. */
+export type RootConfig = string | { path: string; name?: string };
+
+export const WORKSPACE_VAR = "${workspace}";
+
+// ---- Resolution ----
+
+function rootPath(root: RootConfig): string {
+  return typeof root === "string" ? root : root.path;
+}
+
+/** The server's roots depend on the agent workspace. */
+export function usesWorkspace(serverConfig: ServerConfig): boolean {
+  return (serverConfig.roots ?? []).some((root) => rootPath(root).includes(WORKSPACE_VAR));
+}
+
+/**
+ * Workspace from the host config: the agent's `agents.list[].workspace`,
+ * else `agents.defaults.workspace`.
+ */
+export function getAgentWorkspace(
+  hostConfig:
+    | { agents?: { defaults?: { workspace?: unknown }; list?: Array<{ id?: string; workspace?: unknown }> } }
+    | undefined,
+  agentId: string | undefined
+): string | undefined {
+  const entry = agentId ? hostConfig?.agents?.list?.find((a) => a?.id === agentId) : undefined;
+  const workspace = entry?.workspace ?? hostConfig?.agents?.defaults?.workspace;
+  return typeof workspace === "string" && workspace ? workspace : undefined;
+}
+
+/** `file://` URI for a path (`~` expands); URIs pass through. */
+export function toRootUri(value: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return value;
+  const expanded =
+    value === "~" || value.startsWith("~/") ? path.join(os.homedir(), value.slice(1)) : value;
+  return pathToFileURL(path.resolve(expanded)).href;
+}
+
+/**
+ * Roots for `roots/list`. Entries that need a workspace are skipped until
+ * one is known; entries with unresolvable references are skipped with a
+ * warning.
+ */
+export function resolveRoots(
+  serverName: string,
+  roots: RootConfig[] | undefined,
+  workspace: string | undefined,
+  logger?: Logger
+): Root[] {
+  const resolved: Root[] = [];
+  for (const root of roots ?? []) {
+    const raw = rootPath(root);
+    if (raw.includes(WORKSPACE_VAR) && !workspace) continue;
+
+    let uri: string;
+    try {
+      // The workspace goes in first so it is not taken for an env reference
+      const value = raw.replaceAll(WORKSPACE_VAR, workspace ?? "");
+      uri = toRootUri(resolveEnvVars(value, `${serverName} roots`, { secret: false }));
+    } catch (err: any) {
+      logger?.warn(`mcp-bridge: ${serverName}: skipping root ${raw}: ${err?.message ?? String(err)}`);
+      continue;
+    }
+    if (resolved.some((r) => r.uri === uri)) continue;
+    const name = typeof root === "string" ? undefined : root.name;
+    resolved.push(name ? { uri, name } : { uri });
+  }
+  return resolved;
+}
@@ -0,0 +1,212 @@
+/**
+ * MCP sampling: servers asking the client's LLM for a completion
+ * (`sampling/createMessage`).
+ *
+ * Off unless a server sets `sampling.enabled`; only then does the bridge
+ * advertise the capability. Requests go to the host's `createMessage` hook
+ * when it has one, else to a local `handler` command that reads the request
+ * as JSON on stdin and prints the completion. `maxTokens` is clamped and
+ * requests over the per-server rate limit are rejected, since every request
+ * spends the user's model quota on the server's behalf.
+ */
+
+import { spawn } from "node:child_process";
+import {
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RateWindow, type RateLimit } from "./limiter.js";
+import { resolveSecrets } from "./secrets.js";
+import type { Logger } from "./types.js";
+
+// ---- Types ----
+
+export interface SamplingHandlerCommand {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** Kill the handler after this long (default: 120000). */
+  timeoutMs?: number;
+}
+
+export interface SamplingConfig {
+  /** Let the server request completions (default: false). */
+  enabled?: boolean;
+  /** Upper bound for a request's `maxTokens` (default: 1024). */
+  maxTokens?: number;
+  /** Request quota (default: 10 per minute). */
+  rateLimit?: RateLimit;
+  /** Model passed to the host or handler; overrides the server's preferences. */
+  model?: string;
+  /** Local handler used when the host has no `createMessage` hook. */
+  handler?: SamplingHandlerCommand;
+}
+
+export type SamplingParams = CreateMessageRequest["params"];
+
+/** What the host hook and the local handler receive. */
+export interface SamplingRequest {
+  server: string;
+  messages: SamplingParams["messages"];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  model?: string;
+  modelPreferences?: SamplingParams["modelPreferences"];
+  signal?: AbortSignal;
+}
+
+/** A completion; a plain string is taken as the text. */
+export type SamplingResponse =
+  | string
+  | { text: string; model?: string; stopReason?: string };
+
+/** Host model hook. */
+export type SamplingHook = (request: SamplingRequest) => Promise<SamplingResponse>;
+
+export type SamplingRequestHandler = (
+  params: SamplingParams,
+  signal?: AbortSignal
+) => Promise<CreateMessageResult>;
+
+export const DEFAULT_SAMPLING_MAX_TOKENS = 1024;
+export const DEFAULT_SAMPLING_RATE_LIMIT: RateLimit = { calls: 10, per: "minute" };
+const DEFAULT_HANDLER_TIMEOUT_MS = 120_000;
+
+// ---- Handler ----
+
+/**
+ * Handler for one server's sampling requests, or undefined when sampling is
+ * disabled or there is nothing to route it to (the capability is then not
+ * advertised).
+ */
+export function createSamplingHandler(options: {
+  serverName: string;
+  config?: SamplingConfig;
+  hook?: SamplingHook;
+  logger: Logger;
+  now?: () => number;
+}): SamplingRequestHandler | undefined {
+  const { serverName, config, hook, logger } = options;
+  if (!config?.enabled) return undefined;
+  if (!hook && !config.handler) {
+    logger.warn(
+      `mcp-bridge: ${serverName}: sampling is enabled but the host has no model hook and no sampling.handler is configured`
+    );
+    return undefined;
+  }
+
+  const limit = config.maxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS;
+  const rate = new RateWindow(config.rateLimit ?? DEFAULT_SAMPLING_RATE_LIMIT, options.now);
+
+  return async (params, signal) => {
+    if (!rate.tryTake()) {
+      logger.warn(`mcp-bridge: ${serverName}: sampling request rejected by the rate limit`);
+      throw new McpError(ErrorCode.InvalidRequest, `Sampling rate limit exceeded for ${serverName}`);
+    }
+
+    const maxTokens = Math.min(params.maxTokens, limit);
+    const request: SamplingRequest = {
+      server: serverName,
+      messages: params.messages,
+      systemPrompt: params.systemPrompt,
+      maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+      model: config.model,
+      modelPreferences: params.modelPreferences,
+      signal,
+    };
+    logger.info(
+      `mcp-bridge: ${serverName} requested sampling (${params.messages.length} message(s), maxTokens ${maxTokens}${maxTokens < params.maxTokens ? `, clamped from ${params.maxTokens}` : ""}) via ${hook ? "host" : "handler"}`
+    );
+
+    let response: SamplingResponse;
+    try {
+      response = hook
+        ? await hook(request)
+        : await runSamplingCommand(config.handler!, request, signal);
+    } catch (err: any) {
+      logger.warn(
+        `mcp-bridge: ${serverName}: sampling failed: ${err?.message ?? String(err)}`
+      );
+      throw new McpError(ErrorCode.InternalError, `Sampling failed: ${err?.message ?? String(err)}`);
+    }
+    return toCreateMessageResult(response, config.model);
+  };
+}
+
+export function toCreateMessageResult(
+  response: SamplingResponse,
+  model?: string
+): CreateMessageResult {
+  const { text, model: used, stopReason } =
+    typeof response === "string" ? { text: response, model: undefined, stopReason: undefined } : response;
+  return {
+    role: "assistant",
+    content: { type: "text", text: String(text ?? "") },
+    model: used ?? model ?? "unknown",
+    stopReason: stopReason ?? "endTurn",
+  };
+}
+
+// ---- Local handler ----
+
+/**
+ * Run the configured handler command: the request (without the signal) is
+ * written to stdin as JSON; stdout is either a JSON `SamplingResponse` or
+ * plain completion text.
+ */
+export function runSamplingCommand(
+  handler: SamplingHandlerCommand,
+  request: SamplingRequest,
+  signal?: AbortSignal
+): Promise<SamplingResponse> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(handler.env ?? {})) {
+    env[key] = resolveSecrets(value, `sampling.handler.env.${key}`);
+  }
+  const { signal: _signal, ...payload } = request;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(handler.command, handler.args ?? [], {
+      env: { ...process.env, ...env },
+      stdio: ["pipe", "pipe", "pipe"],
+      signal,
+      timeout: handler.timeoutMs ?? DEFAULT_HANDLER_TIMEOUT_MS,
+    });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code, killedBy) => {
+      if (code !== 0) {
+        const reason = killedBy ? `killed by ${killedBy}` : `exit code ${code}`;
+        reject(new Error(`${handler.command} failed (${reason})${stderr ? `: ${stderr.trim()}` : ""}`));
+        return;
+      }
+      resolve(parseHandlerOutput(stdout));
+    });
+    // A handler that ignores stdin must not fail the request
+    child.stdin.on("error", () => {});
+    child.stdin.end(JSON.stringify(payload));
+  });
+}
+
+function parseHandlerOutput(stdout: string): SamplingResponse {
+  const trimmed = stdout.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed?.text === "string") return parsed;
+    } catch {
+      // Not JSON after all; use it as text
+    }
+  }
+  return trimmed;
+}
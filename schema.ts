@@ -0,0 +1,285 @@
+/**
+ * JSON Schema normalization for tool parameters.
+ *
+ * MCP servers emit schemas with `$ref`/`$defs`, combinators, type unions and
+ * formats that some model providers reject. Normalization inlines local refs,
+ * guarantees an object root and, depending on the profile, strips or
+ * downgrades keywords. Every change is recorded so lossy conversions can be
+ * reported (discover.ts warns about them).
+ *
+ * Profiles:
+ * - `none`: pass the schema through untouched
+ * - `standard` (default): inline refs, object root, drop metadata keywords
+ * - `strict`: additionally downgrade to the subset most providers accept
+ */
+
+// ---- Types ----
+
+export type SchemaProfile = "none" | "standard" | "strict";
+
+export const DEFAULT_SCHEMA_PROFILE: SchemaProfile = "standard";
+
+export interface SchemaChange {
+  /** JSON pointer-ish location in the original schema (e.g. `#/properties/q`). */
+  path: string;
+  message: string;
+  /** True when the change loses validation information. */
+  lossy: boolean;
+}
+
+export interface NormalizedSchema {
+  schema: Record<string, unknown>;
+  changes: SchemaChange[];
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Keywords that carry no validation meaning for the model
+const METADATA_KEYWORDS = ["$schema", "$id", "$comment", "$anchor", "$dynamicAnchor", "$vocabulary"];
+
+// Keywords the strict profile removes outright
+const STRICT_UNSUPPORTED = [
+  "if",
+  "then",
+  "else",
+  "not",
+  "patternProperties",
+  "dependentSchemas",
+  "dependentRequired",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+  "propertyNames",
+  "contains",
+  "minContains",
+  "maxContains",
+  "$dynamicRef",
+];
+
+// String formats the strict profile keeps
+const STRICT_FORMATS = new Set([
+  "date-time",
+  "date",
+  "time",
+  "duration",
+  "email",
+  "hostname",
+  "ipv4",
+  "ipv6",
+  "uri",
+  "uuid",
+]);
+
+const SUBSCHEMA_MAPS = ["properties", "$defs", "definitions", "dependentSchemas", "patternProperties"];
+const SUBSCHEMA_LISTS = ["anyOf", "oneOf", "allOf", "prefixItems"];
+const SUBSCHEMA_SINGLE = ["additionalProperties", "not", "if", "then", "else", "contains", "propertyNames"];
+
+// ---- Helpers ----
+
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function resolvePointer(root: JsonSchema, ref: string): unknown {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) return undefined;
+
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split("/")) {
+    const key = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(node) && !Array.isArray(node)) return undefined;
+    node = (node as any)[key];
+  }
+  return node;
+}
+
+/** Shallow-merge `allOf` members into one schema (properties and required are unioned). */
+function mergeAllOf(members: unknown[], path: string, changes: SchemaChange[]): JsonSchema {
+  const merged: JsonSchema = {};
+  const properties: JsonSchema = {};
+  const required = new Set<string>();
+
+  for (const member of members) {
+    if (!isObject(member)) continue;
+    for (const [key, value] of Object.entries(member)) {
+      if (key === "properties" && isObject(value)) {
+        Object.assign(properties, value);
+      } else if (key === "required" && Array.isArray(value)) {
+        value.forEach((r) => required.add(String(r)));
+      } else if (key in merged && JSON.stringify(merged[key]) !== JSON.stringify(value)) {
+        changes.push({ path, message: `allOf: conflicting '${key}' dropped`, lossy: true });
+      } else {
+        merged[key] = value;
+      }
+    }
+  }
+
+  if (Object.keys(properties).length > 0) merged.properties = properties;
+  if (required.size > 0) merged.required = [...required];
+  return merged;
+}
+
+// ---- Normalization ----
+
+export function normalizeSchema(
+  input: unknown,
+  profile: SchemaProfile = DEFAULT_SCHEMA_PROFILE
+): NormalizedSchema {
+  const changes: SchemaChange[] = [];
+
+  if (profile === "none") {
+    return {
+      schema: isObject(input) ? input : { type: "object", properties: {} },
+      changes,
+    };
+  }
+
+  const root: JsonSchema = isObject(input) ? input : {};
+  const strict = profile === "strict";
+
+  const walk = (node: unknown, path: string, refStack: string[]): unknown => {
+    if (!isObject(node)) return node;
+
+    let schema: JsonSchema = { ...node };
+
+    // Inline local refs; siblings of $ref override the referenced schema
+    if (typeof schema.$ref === "string") {
+      const ref = schema.$ref;
+      const { $ref: _ref, ...siblings } = schema;
+      const target = resolvePointer(root, ref);
+
+      if (refStack.includes(ref)) {
+        changes.push({ path, message: `recursive $ref ${ref} replaced with an untyped schema`, lossy: true });
+        schema = { ...siblings };
+      } else if (!isObject(target)) {
+        changes.push({ path, message: `unresolvable $ref ${ref} removed`, lossy: true });
+        schema = { ...siblings };
+      } else {
+        changes.push({ path, message: `inlined $ref ${ref}`, lossy: false });
+        return walk({ ...target, ...siblings }, path, [...refStack, ref]);
+      }
+    }
+
+    for (const key of METADATA_KEYWORDS) {
+      if (key in schema) {
+        delete schema[key];
+        changes.push({ path, message: `removed ${key}`, lossy: false });
+      }
+    }
+
+    // Definitions are only reachable through refs, which are inlined by now
+    for (const key of ["$defs", "definitions"]) {
+      if (key in schema) {
+        delete schema[key];
+        changes.push({ path, message: `removed ${key} after inlining`, lossy: false });
+      }
+    }
+
+    if (strict) {
+      for (const key of STRICT_UNSUPPORTED) {
+        if (key in schema) {
+          delete schema[key];
+          changes.push({ path, message: `removed unsupported keyword ${key}`, lossy: true });
+        }
+      }
+
+      if (Array.isArray(schema.type)) {
+        const types = schema.type.filter((t) => t !== "null");
+        if (types.length < schema.type.length) schema.nullable = true;
+        schema.type = types[0] ?? "string";
+        changes.push({
+          path,
+          message: `type union downgraded to '${schema.type}'`,
+          lossy: types.length > 1,
+        });
+      }
+
+      if ("const" in schema) {
+        schema.enum = [schema.const];
+        delete schema.const;
+        changes.push({ path, message: "const rewritten as enum", lossy: false });
+      }
+
+      if (Array.isArray(schema.oneOf)) {
+        schema.anyOf = [...(Array.isArray(schema.anyOf) ? schema.anyOf : []), ...schema.oneOf];
+        delete schema.oneOf;
+        changes.push({ path, message: "oneOf rewritten as anyOf", lossy: false });
+      }
+
+      if (Array.isArray(schema.allOf)) {
+        const { allOf, ...rest } = schema;
+        const members = (allOf as unknown[]).map((m, i) => walk(m, `${path}/allOf/${i}`, refStack));
+        schema = { ...mergeAllOf(members, path, changes), ...rest };
+        changes.push({ path, message: "allOf merged into one schema", lossy: false });
+      }
+
+      if (typeof schema.format === "string" && !STRICT_FORMATS.has(schema.format)) {
+        changes.push({ path, message: `removed unsupported format '${schema.format}'`, lossy: true });
+        delete schema.format;
+      }
+
+      if (isObject(schema.additionalProperties)) {
+        delete schema.additionalProperties;
+        changes.push({ path, message: "removed additionalProperties schema", lossy: true });
+      }
+    }
+
+    for (const key of SUBSCHEMA_MAPS) {
+      if (isObject(schema[key])) {
+        const mapped: JsonSchema = {};
+        for (const [name, sub] of Object.entries(schema[key] as JsonSchema)) {
+          mapped[name] = walk(sub, `${path}/${key}/${name}`, refStack);
+        }
+        schema[key] = mapped;
+      }
+    }
+
+    for (const key of SUBSCHEMA_LISTS) {
+      if (Array.isArray(schema[key])) {
+        schema[key] = (schema[key] as unknown[]).map((sub, i) =>
+          walk(sub, `${path}/${key}/${i}`, refStack)
+        );
+      }
+    }
+
+    for (const key of SUBSCHEMA_SINGLE) {
+      if (isObject(schema[key])) {
+        schema[key] = walk(schema[key], `${path}/${key}`, refStack);
+      }
+    }
+
+    if (Array.isArray(schema.items)) {
+      schema.items = schema.items.map((sub, i) => walk(sub, `${path}/items/${i}`, refStack));
+    } else if (isObject(schema.items)) {
+      schema.items = walk(schema.items, `${path}/items`, refStack);
+    }
+
+    return schema;
+  };
+
+  let schema = walk(root, "#", []) as JsonSchema;
+
+  // Tool parameters must be an object schema
+  if (!isObject(input)) {
+    changes.push({ path: "#", message: "missing schema replaced with an empty object schema", lossy: false });
+  }
+  if (schema.type === undefined) {
+    schema = { type: "object", ...schema };
+    if (isObject(input)) changes.push({ path: "#", message: "added type: object to root", lossy: false });
+  } else if (schema.type !== "object") {
+    changes.push({
+      path: "#",
+      message: `non-object root (type ${JSON.stringify(schema.type)}) replaced with an empty object schema`,
+      lossy: true,
+    });
+    schema = { type: "object" };
+  }
+  if (!isObject(schema.properties)) {
+    schema.properties = {};
+  }
+
+  return { schema, changes };
+}
+
+export function hasLossyChanges(result: NormalizedSchema): boolean {
+  return result.changes.some((c) => c.lossy);
+}
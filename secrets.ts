@@ -0,0 +1,122 @@
+/**
+ * Secret references in server config strings, and redaction of their values.
+ *
+ * Supported references (in `command`, `args`, `env`, `url`, `headers` and
+ * OAuth client credentials):
+ * - `${VAR}` / `${env:VAR}` — environment variable; an error if unset
+ * - `${VAR:-default}` / `${env:VAR:-default}` — fallback when unset or empty
+ * - `${file:/path/to/secret}` — file contents (`~` expands, trailing newline trimmed)
+ *
+ * Values read from files, and environment values resolved for secret-bearing
+ * fields (`env`, `headers`, OAuth credentials), are remembered so they can be
+ * redacted from log lines and from error text returned to the agent. Plain
+ * settings like `args`, `command` and `url` pass `{ secret: false }`: their
+ * `${HOME}` or `${PORT}` values would otherwise be scrubbed everywhere.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+export class SecretResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretResolutionError";
+  }
+}
+
+const REDACTED = "[redacted]";
+
+// Shorter values would redact ordinary words and numbers
+const MIN_REDACTED_LENGTH = 4;
+
+const secretValues = new Set<string>();
+
+function remember(value: string): string {
+  if (value.length >= MIN_REDACTED_LENGTH) secretValues.add(value);
+  return value;
+}
+
+function readSecretFile(filePath: string, where: string): string {
+  const resolved = filePath.startsWith("~/") ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+  try {
+    return fs.readFileSync(resolved, "utf-8").replace(/\r?\n$/, "");
+  } catch (err: any) {
+    throw new SecretResolutionError(
+      `cannot read secret file ${filePath}${where}: ${err?.code ?? err?.message ?? String(err)}`
+    );
+  }
+}
+
+export interface ResolveOptions {
+  /** Remember environment values for redaction (default true); file contents always are */
+  secret?: boolean;
+}
+
+/**
+ * Expand all `${…}` references in `value`. `context` names the config field
+ * in error messages, e.g. `github headers.Authorization`.
+ */
+export function resolveSecrets(value: string, context?: string, options: ResolveOptions = {}): string {
+  const where = context ? ` (referenced in ${context})` : "";
+  const fromEnv = (envValue: string) => (options.secret === false ? envValue : remember(envValue));
+
+  return value.replace(/\$\{([^}]+)\}/g, (_match, ref: string) => {
+    if (ref.startsWith("file:")) {
+      return remember(readSecretFile(ref.slice("file:".length), where));
+    }
+
+    const spec = ref.startsWith("env:") ? ref.slice("env:".length) : ref;
+    const fallback = spec.indexOf(":-");
+    const name = fallback >= 0 ? spec.slice(0, fallback) : spec;
+    const envValue = process.env[name];
+
+    if (fallback >= 0) {
+      return envValue ? fromEnv(envValue) : spec.slice(fallback + 2);
+    }
+    if (envValue === undefined) {
+      throw new SecretResolutionError(`environment variable ${name} is not set${where}`);
+    }
+    return fromEnv(envValue);
+  });
+}
+
+/** Replace every resolved secret value in `text`. */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  // Longest first, so a secret containing another is redacted whole
+  for (const secret of [...secretValues].sort((a, b) => b.length - a.length)) {
+    if (redacted.includes(secret)) redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+/** Wrap a logger so every line is redacted. */
+export function createRedactingLogger<
+  T extends { debug?: (msg: string) => void; info: (msg: string) => void; warn: (msg: string) => void },
+>(logger: T): T {
+  return {
+    ...logger,
+    ...(logger.debug ? { debug: (msg: string) => logger.debug!(redactSecrets(msg)) } : {}),
+    info: (msg: string) => logger.info(redactSecrets(msg)),
+    warn: (msg: string) => logger.warn(redactSecrets(msg)),
+  };
+}
+
+/** Redact the text content of an error result returned to the agent. */
+export function redactErrorResult<T extends { content?: any[]; isError?: boolean }>(result: T): T {
+  if (!result?.isError || !Array.isArray(result.content)) return result;
+  return {
+    ...result,
+    content: result.content.map((item) =>
+      item?.type === "text" && typeof item.text === "string"
+        ? { ...item, text: redactSecrets(item.text) }
+        : item
+    ),
+  };
+}
+
+/** Forget remembered values (tests). */
+export function clearSecrets(): void {
+  secretValues.clear();
+}
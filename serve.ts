@@ -0,0 +1,416 @@
+#!/usr/bin/env npx tsx
+/**
+ * MCP Gateway — serves the bridged toolset as a single MCP server, so other
+ * MCP clients (IDEs, test harnesses) can use one endpoint instead of
+ * configuring every server.
+ *
+ * Usage: npx tsx serve.ts [--config path/to/config.json]
+ *        npx tsx serve.ts --http [--port 8977] [--host 127.0.0.1] [--config path/to/config.json]
+ *          [--allowed-hosts host:port,...] [--allowed-origins origin,...]
+ *
+ * Tools come from .mcp-tools-cache.json (run `npx tsx discover.ts` first)
+ * and carry the same filtered, prefixed names as in OpenClaw. Upstream
+ * servers are connected lazily through the same pool as the plugin.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import * as http from "node:http";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { isAgentAllowed } from "./agents.js";
+import { CONFIRM_TOOL, getApprovalPolicy } from "./approval.js";
+import { CACHE_FILE, loadCache, type CachedTool, type CacheEntry } from "./cache.js";
+import { connectClient, getCallTimeout, getMaxTotalTimeout } from "./connect.js";
+import { loadPluginConfig } from "./discover.js";
+import { invalidArgumentsResult, queueTimeoutResult, timeoutResult } from "./errors.js";
+import { CallLimiter, QueueTimeoutError, type Slot } from "./limiter.js";
+import {
+  formatCollision,
+  listToolNameCandidates,
+  resolveToolNames,
+  type ToolNameCollision,
+} from "./naming.js";
+import { ConnectionManager } from "./pool.js";
+import { convertToolResult } from "./results.js";
+import { classifyError } from "./retry.js";
+import { createRedactingLogger, redactSecrets } from "./secrets.js";
+import { STATUS_TOOL } from "./status.js";
+import { READ_RESULT_TOOL } from "./truncate.js";
+import type { Logger, PluginConfig, ServerConfig } from "./types.js";
+import { compileArgValidator, compileOutputValidator } from "./validate.js";
+
+// ---- Types ----
+
+export interface GatewayTool {
+  /** Exposed name, as the agent would see it in OpenClaw. */
+  name: string;
+  server: string;
+  tool: CachedTool;
+}
+
+export interface GatewayOptions {
+  config: PluginConfig;
+  cache: { servers: CacheEntry[] } | null;
+  logger: Logger;
+  /** Open an upstream client (defaults to connectClient over the server config). */
+  connect?: (serverName: string, serverConfig: ServerConfig) => Promise<Client>;
+}
+
+export const DEFAULT_GATEWAY_PORT = 8977;
+
+const GATEWAY_INFO = { name: "openclaw-mcp-bridge", version: "0.1.0" };
+
+// ---- Planning ----
+
+/**
+ * Tools to expose: enabled servers, include/exclude filters applied, only
+ * `allow` tools (the gateway cannot ask anyone to confirm a call).
+ * Servers scoped to agents are left out: gateway clients are not agents.
+ * Name collisions are returned for the caller to report.
+ */
+export function planGatewayTools(
+  cache: { servers: CacheEntry[] } | null,
+  config: PluginConfig
+): { tools: GatewayTool[]; collisions: ToolNameCollision[] } {
+  const servers = config.servers ?? {};
+  // Resolved over the same servers and reserved names as the plugin, so the
+  // names match it when it loads
+  const entries = (cache?.servers ?? []).filter((entry) => {
+    const serverConfig = servers[entry.server];
+    return serverConfig && serverConfig.enabled !== false;
+  });
+  const candidates = entries.flatMap((entry) =>
+    listToolNameCandidates(entry.server, servers[entry.server], entry)
+  );
+  const { names, collisions } = resolveToolNames(candidates, {
+    strategy: config.collisionStrategy,
+    maxLength: config.maxToolNameLength,
+    taken: new Set([CONFIRM_TOOL, READ_RESULT_TOOL, STATUS_TOOL]),
+  });
+
+  const tools: GatewayTool[] = [];
+  candidates.forEach((candidate, i) => {
+    const name = names[i];
+    if (!name || !candidate.key.startsWith("tool:")) return;
+    const serverConfig = servers[candidate.server];
+    if (!isAgentAllowed(serverConfig, undefined)) return;
+    const mcpToolName = candidate.key.slice("tool:".length);
+    const entry = entries.find((e) => e.server === candidate.server)!;
+    const tool = entry.tools.find((t) => t.name === mcpToolName)!;
+    if (getApprovalPolicy(serverConfig, mcpToolName, tool.annotations) !== "allow") return;
+    tools.push({ name, server: candidate.server, tool });
+  });
+  return { tools, collisions };
+}
+
+function toListedTool({ name, server, tool }: GatewayTool): Tool {
+  return {
+    name,
+    ...(tool.title ? { title: tool.title } : {}),
+    description: [tool.description ?? `MCP tool from ${server}`, `(MCP: ${server}/${tool.name})`].join(" "),
+    inputSchema: (tool.inputSchema ?? { type: "object" }) as Tool["inputSchema"],
+    ...(tool.annotations ? { annotations: tool.annotations } : {}),
+  };
+}
+
+// ---- Gateway ----
+
+export class Gateway {
+  readonly tools: GatewayTool[];
+  readonly pool: ConnectionManager;
+  private readonly byName: Map<string, GatewayTool>;
+  private readonly limiters = new Map<string, CallLimiter>();
+  private readonly validators = new Map<string, ReturnType<typeof compileArgValidator>>();
+
+  constructor(private readonly options: GatewayOptions) {
+    const servers = options.config.servers ?? {};
+    const { tools, collisions } = planGatewayTools(options.cache, options.config);
+    for (const collision of collisions) {
+      options.logger.warn(`mcp-bridge: ${formatCollision(collision)}`);
+    }
+    if (options.config.collisionStrategy === "error" && collisions.length > 0) {
+      throw new Error(
+        `mcp-bridge: ${collisions.length} tool name collision(s); set collisionStrategy or adjust prefix/rename`
+      );
+    }
+    this.tools = tools;
+    this.byName = new Map(this.tools.map((t) => [t.name, t]));
+    this.pool = new ConnectionManager({
+      servers,
+      logger: options.logger,
+      connect:
+        options.connect ??
+        (async (name, serverConfig) => {
+          const client = new Client({ name: `openclaw-mcp-bridge/${name}`, version: "0.1.0" });
+          await connectClient(client, name, serverConfig, options.logger);
+          return client;
+        }),
+    });
+  }
+
+  /** A protocol server bound to this gateway; one per stdio session or HTTP request. */
+  createServer(): Server {
+    const server = new Server(GATEWAY_INFO, { capabilities: { tools: {} } });
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools.map(toListedTool),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const progressToken = request.params._meta?.progressToken;
+      return this.callTool(request.params.name, request.params.arguments ?? {}, {
+        signal: extra.signal,
+        onprogress:
+          progressToken !== undefined
+            ? (progress) => {
+                extra
+                  .sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, ...progress },
+                  })
+                  .catch(() => {});
+              }
+            : undefined,
+      });
+    });
+
+    return server;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    opts: {
+      signal?: AbortSignal;
+      onprogress?: (progress: { progress: number; total?: number; message?: string }) => void;
+    } = {}
+  ): Promise<CallToolResult> {
+    const target = this.byName.get(name);
+    if (!target) {
+      return { content: [{ type: "text", text: `Unknown tool: ${name}` }], isError: true };
+    }
+    const { server: serverName, tool } = target;
+    const serverConfig = this.options.config.servers![serverName];
+
+    if (!this.validators.has(name)) {
+      this.validators.set(name, compileArgValidator(tool.inputSchema, serverConfig.validation));
+    }
+    const validate = this.validators.get(name);
+    if (validate) {
+      const checked = validate(args);
+      if (!checked.valid) return invalidArgumentsResult(serverName, tool.name, checked.errors);
+      args = checked.args;
+    }
+
+    let limiter = this.limiters.get(serverName);
+    if (!limiter) {
+      limiter = new CallLimiter(serverName, serverConfig);
+      this.limiters.set(serverName, limiter);
+    }
+    let slot: Slot;
+    try {
+      slot = await limiter.acquire(opts.signal);
+    } catch (err) {
+      if (err instanceof QueueTimeoutError) return queueTimeoutResult(serverName, tool.name, err.waitedMs);
+      throw err;
+    }
+
+    const timeout = getCallTimeout(serverConfig, tool.name);
+    const startedAt = Date.now();
+    try {
+      const client = await this.pool.get(serverName);
+      const result = await client.callTool({ name: tool.name, arguments: args }, undefined, {
+        timeout,
+        signal: opts.signal,
+        onprogress: opts.onprogress,
+        resetTimeoutOnProgress: serverConfig.resetTimeoutOnProgress ?? true,
+        maxTotalTimeout: getMaxTotalTimeout(serverConfig, tool.name),
+      });
+      this.pool.breaker(serverName).recordSuccess();
+      this.pool.recordCall(serverName, { tool: tool.name, durationMs: Date.now() - startedAt });
+
+      const converted = await convertToolResult(result, {
+        validateOutput: compileOutputValidator(tool.outputSchema),
+        readResource: serverConfig.fetchResourceLinks
+          ? async (uri) => (await client.readResource({ uri }, { signal: opts.signal })).contents
+          : undefined,
+      });
+      const structuredContent = converted.details?.structuredContent;
+      return {
+        content: converted.content,
+        isError: converted.isError,
+        ...(structuredContent && typeof structuredContent === "object"
+          ? { structuredContent: structuredContent as Record<string, unknown> }
+          : {}),
+      };
+    } catch (err: any) {
+      this.pool.recordCall(serverName, { tool: tool.name, durationMs: Date.now() - startedAt, error: err });
+      const errorClass = classifyError(err);
+      if (errorClass === "connection") this.pool.drop(serverName);
+      if (errorClass === "timeout") return timeoutResult(serverName, tool.name, timeout);
+      return {
+        content: [
+          {
+            type: "text",
+            text: redactSecrets(`MCP error (${serverName}/${tool.name}): ${err?.message ?? String(err)}`),
+          },
+        ],
+        isError: true,
+      };
+    } finally {
+      slot.release();
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.pool.stop();
+  }
+}
+
+// ---- Transports ----
+
+export interface HttpServerOptions {
+  /** Accepted `Host` headers, as `host:port` (default: localhost and the bound address). */
+  allowedHosts?: string[];
+  /** Accepted `Origin` headers, when one is sent (default: the allowed hosts over http). */
+  allowedOrigins?: string[];
+}
+
+/** `host:port` names a local client may use for the listening address. */
+function localHosts(server: http.Server): string[] {
+  const address = server.address();
+  if (!address || typeof address === "string") return [];
+  const hosts = ["localhost", "127.0.0.1", "[::1]"];
+  // Wildcard binds have no single name to allow; pass allowedHosts for those
+  if (address.address !== "0.0.0.0" && address.address !== "::") {
+    hosts.push(address.address.includes(":") ? `[${address.address}]` : address.address);
+  }
+  return [...new Set(hosts)].map((host) => `${host}:${address.port}`);
+}
+
+/**
+ * Stateless streamable HTTP: each POST to `/mcp` gets its own protocol
+ * server. Requests with another `Host` or `Origin` are rejected with 403, so
+ * a web page cannot reach the gateway through DNS rebinding.
+ */
+export function createHttpServer(
+  gateway: Gateway,
+  logger: Logger,
+  options: HttpServerOptions = {}
+): http.Server {
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/mcp") {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { "Content-Type": "application/json", Allow: "POST" });
+      res.end(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          error: { code: -32000, message: "Method not allowed: this gateway is stateless, use POST" },
+          id: null,
+        })
+      );
+      return;
+    }
+
+    const server = gateway.createServer();
+    const allowedHosts = options.allowedHosts ?? localHosts(httpServer);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins: options.allowedOrigins ?? allowedHosts.map((host) => `http://${host}`),
+    });
+    res.on("close", () => {
+      transport.close().catch(() => {});
+      server.close().catch(() => {});
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (err: any) {
+      logger.warn(`mcp-gateway: request failed: ${err?.message ?? String(err)}`);
+      if (!res.headersSent) res.writeHead(500).end();
+    }
+  });
+  return httpServer;
+}
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function argList(flag: string): string[] | undefined {
+  return argValue(flag)
+    ?.split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+async function main() {
+  // stdout carries the protocol in stdio mode, so all logging goes to stderr
+  const logger: Logger = createRedactingLogger({
+    info: (msg: string) => console.error(msg),
+    warn: (msg: string) => console.error(msg),
+  });
+
+  const { config, source } = loadPluginConfig();
+  const cachePath = path.join(path.dirname(new URL(import.meta.url).pathname), CACHE_FILE);
+  const cache = loadCache(cachePath);
+  if (!cache) {
+    logger.warn(`mcp-gateway: no tool cache at ${cachePath}. Run \`npx tsx discover.ts\` first.`);
+  }
+
+  const gateway = new Gateway({ config, cache, logger });
+  logger.info(`mcp-gateway: serving ${gateway.tools.length} tool(s) from ${source}`);
+  gateway.pool.start();
+
+  let close: () => Promise<void>;
+  if (process.argv.includes("--http")) {
+    const port = Number(argValue("--port") ?? DEFAULT_GATEWAY_PORT);
+    const host = argValue("--host") ?? "127.0.0.1";
+    const httpServer = createHttpServer(gateway, logger, {
+      allowedHosts: argList("--allowed-hosts"),
+      allowedOrigins: argList("--allowed-origins"),
+    });
+    await new Promise<void>((resolve) => httpServer.listen(port, host, resolve));
+    logger.info(`mcp-gateway: listening on http://${host}:${port}/mcp`);
+    close = () => new Promise((resolve) => httpServer.close(() => resolve()));
+  } else {
+    const server = gateway.createServer();
+    await server.connect(new StdioServerTransport());
+    close = () => server.close();
+  }
+
+  const shutdown = async () => {
+    await close();
+    await gateway.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+const isMain =
+  process.argv[1] !== undefined &&
+  import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isMain) {
+  main().catch((err) => {
+    console.error("Fatal:", redactSecrets(err?.stack ?? String(err)));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Bridge diagnostics shared by the `mcp_bridge_status` agent tool and
+ * `npx tsx discover.ts status`: per server, where the config came from, the
+ * transport actually used, connection state, cache freshness, last error and
+ * per-tool call/latency counters. Rendered as text or JSON.
+ */
+
+import { isAgentAllowed } from "./agents.js";
+import { configFingerprint, type CacheEntry } from "./cache.js";
+import { getTransportMode } from "./connect.js";
+import type { LimiterStats } from "./limiter.js";
+import { isToolIncluded } from "./naming.js";
+import type { ConnectionState, ConnectionStats } from "./pool.js";
+import type { CircuitState } from "./retry.js";
+import type { PluginConfig } from "./types.js";
+
+// ---- Types ----
+
+export interface ToolStatus {
+  name: string;
+  calls: number;
+  failures: number;
+  avgMs: number;
+  maxMs: number;
+}
+
+export interface ServerStatus {
+  server: string;
+  /** Pool key of a per-agent connection (`<server>#<hash>`); unset for the shared one. */
+  connection?: string;
+  enabled: boolean;
+  /** stdio, or the configured URL transport mode (auto/streamable-http/sse). */
+  configuredTransport: string;
+  /** Transport actually negotiated, once connected. */
+  transport?: string;
+  state: ConnectionState | "not connected";
+  circuit?: CircuitState;
+  connectedSince?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  calls: number;
+  failures: number;
+  reconnects: number;
+  /** Concurrency/rate limiter state, for servers that have limits. */
+  queue?: LimiterStats;
+  cached: boolean;
+  cachedTools: number;
+  exposedTools: number;
+  cacheDiscoveredAt?: string;
+  cacheAgeMs?: number;
+  /** The cache entry was discovered with a different server config. */
+  cacheStale: boolean;
+  tools: ToolStatus[];
+}
+
+export interface StatusReport {
+  generatedAt: string;
+  configSource: string;
+  cachePath: string;
+  servers: ServerStatus[];
+}
+
+export interface StatusInput {
+  config: PluginConfig;
+  configSource: string;
+  cachePath: string;
+  cache: { servers: CacheEntry[] } | null;
+  /** Live connection stats (plugin) or probe results (CLI). */
+  connections?: ConnectionStats[];
+  /** Limiter stats keyed by connection (server name or `<server>#<hash>`). */
+  queues?: Record<string, LimiterStats>;
+  /**
+   * Report for one agent: only servers it may use and, of their per-agent
+   * connections, its own. Unset = everything (CLI).
+   */
+  agent?: { id?: string; tags?: string[]; connections: string[] };
+  now?: number;
+}
+
+// ---- Build ----
+
+export function buildStatus(input: StatusInput): StatusReport {
+  const now = input.now ?? Date.now();
+  const connections = new Map((input.connections ?? []).map((c) => [c.server, c]));
+  const entries = new Map((input.cache?.servers ?? []).map((e) => [e.server, e]));
+
+  const servers: ServerStatus[] = [];
+  for (const [name, serverConfig] of Object.entries(input.config.servers ?? {})) {
+    if (input.agent && !isAgentAllowed(serverConfig, input.agent.id, input.agent.tags)) continue;
+    const entry = entries.get(name);
+    const discoveredAt = entry?.discoveredAt ? Date.parse(entry.discoveredAt) : NaN;
+    const cacheStatus = {
+      cached: entry !== undefined,
+      cachedTools: entry?.tools.length ?? 0,
+      exposedTools: entry?.tools.filter((t) => isToolIncluded(serverConfig, t.name)).length ?? 0,
+      cacheDiscoveredAt: entry?.discoveredAt || undefined,
+      cacheAgeMs: Number.isNaN(discoveredAt) ? undefined : Math.max(0, now - discoveredAt),
+      cacheStale:
+        entry?.configFingerprint !== undefined &&
+        entry.configFingerprint !== configFingerprint(serverConfig),
+    };
+
+    // The shared connection, then any per-agent `<server>#<hash>` ones
+    const agentKeys = new Set(
+      [...connections.keys(), ...Object.keys(input.queues ?? {})].filter(
+        (key) => key.startsWith(`${name}#`) && (!input.agent || input.agent.connections.includes(key))
+      )
+    );
+    for (const key of [name, ...[...agentKeys].sort()]) {
+      const conn = connections.get(key);
+      servers.push({
+        server: name,
+        connection: key === name ? undefined : key,
+        enabled: serverConfig.enabled !== false,
+        configuredTransport: serverConfig.command ? "stdio" : getTransportMode(serverConfig),
+        transport: conn?.transport,
+        state: conn?.state ?? "not connected",
+        circuit: conn?.circuit,
+        connectedSince: conn?.connectedSince,
+        lastError: conn?.lastError,
+        lastErrorAt: conn?.lastErrorAt,
+        calls: conn?.calls ?? 0,
+        failures: conn?.failures ?? 0,
+        reconnects: conn?.reconnects ?? 0,
+        queue: input.queues?.[key],
+        ...cacheStatus,
+        tools: Object.entries(conn?.tools ?? {})
+          .map(([tool, stats]) => ({
+            name: tool,
+            calls: stats.calls,
+            failures: stats.failures,
+            avgMs: stats.calls > 0 ? Math.round(stats.totalMs / stats.calls) : 0,
+            maxMs: stats.maxMs,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      });
+    }
+  }
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    configSource: input.configSource,
+    cachePath: input.cachePath,
+    servers,
+  };
+}
+
+// ---- Format ----
+
+export function formatAge(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+export function formatStatus(report: StatusReport): string {
+  const lines = [
+    `MCP bridge status (${report.generatedAt})`,
+    `Config: ${report.configSource}`,
+    `Cache: ${report.cachePath}`,
+  ];
+
+  if (report.servers.length === 0) {
+    lines.push("", "No MCP servers configured.");
+  }
+
+  for (const s of report.servers) {
+    const transport =
+      s.transport && s.transport !== s.configuredTransport
+        ? `${s.configuredTransport} → ${s.transport}`
+        : s.configuredTransport;
+    const state = s.enabled ? s.state : "disabled";
+    const circuit = s.circuit && s.circuit !== "closed" ? `, circuit ${s.circuit}` : "";
+
+    lines.push("", `${s.connection ?? s.server}: ${state} (${transport}${circuit})`);
+    if (s.connectedSince) lines.push(`  connected since ${s.connectedSince}`);
+
+    if (!s.cached) {
+      lines.push("  cache: no entry — run `npx tsx discover.ts`");
+    } else {
+      const age = s.cacheAgeMs !== undefined ? `, discovered ${formatAge(s.cacheAgeMs)} ago` : "";
+      const exposed = s.exposedTools < s.cachedTools ? ` (${s.exposedTools} exposed)` : "";
+      const stale = s.cacheStale ? " — stale: server config changed since discovery" : "";
+      lines.push(`  cache: ${s.cachedTools} tool(s)${exposed}${age}${stale}`);
+    }
+
+    if (s.calls > 0 || s.reconnects > 0) {
+      lines.push(`  calls: ${s.calls}, failures: ${s.failures}, reconnects: ${s.reconnects}`);
+    }
+    if (s.queue) {
+      const q = s.queue;
+      const limit = q.maxConcurrency !== undefined ? ` (limit ${q.maxConcurrency})` : "";
+      const avg = q.waited > 0 ? Math.round(q.totalWaitMs / q.waited) : 0;
+      lines.push(
+        `  queue: ${q.active} active${limit}, ${q.queued} waiting (max ${q.maxQueued}), ${q.waited} waited avg ${avg}ms max ${q.maxWaitMs}ms, ${q.timeouts} timed out`
+      );
+    }
+    if (s.lastError) {
+      lines.push(`  last error${s.lastErrorAt ? ` (${s.lastErrorAt})` : ""}: ${s.lastError}`);
+    }
+    for (const t of s.tools) {
+      lines.push(`  - ${t.name}: ${t.calls} call(s), ${t.failures} failed, avg ${t.avgMs}ms, max ${t.maxMs}ms`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ---- Tool ----
+
+export const STATUS_TOOL = "mcp_bridge_status";
+
+export function createStatusTool(getReport: () => StatusReport) {
+  return {
+    name: STATUS_TOOL,
+    description:
+      "Diagnose the MCP bridge: per server connection state, transport, cached tools and cache age, last error and per-tool call/latency stats. Use when a bridged MCP tool fails or is missing.",
+    parameters: {
+      type: "object",
+      properties: {
+        server: { type: "string", description: "Only report this server" },
+        format: {
+          type: "string",
+          enum: ["text", "json"],
+          description: "Output format (default: text)",
+        },
+      },
+    },
+    async execute(_toolCallId: string, params: Record<string, unknown>) {
+      const report = getReport();
+      if (typeof params?.server === "string") {
+        report.servers = report.servers.filter((s) => s.server === params.server);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: params?.format === "json" ? JSON.stringify(report, null, 2) : formatStatus(report),
+          },
+        ],
+        details: report,
+        isError: false,
+      };
+    },
+  };
+}
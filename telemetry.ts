@@ -0,0 +1,432 @@
+/**
+ * Call records and tracing for bridged tool calls.
+ *
+ * Every call ends in one structured `tool_call` log record (server, MCP tool,
+ * agent tool, duration, outcome, retries, transport, result size), optionally
+ * with its arguments and result. With `tracing.file` or `tracing.endpoint`
+ * each call is also exported as an OTLP/JSON span, batched, to a file (one
+ * export request per line) or to an OTLP/HTTP collector.
+ */
+
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { redactSecrets, resolveSecrets } from "./secrets.js";
+import type { Logger } from "./types.js";
+
+// ---- Types ----
+
+export type LogLevel = "debug" | "info" | "warn" | "off";
+
+export interface LoggingConfig {
+  /** Minimum level written to the gateway log (default: "info"). */
+  level?: LogLevel;
+  /** Include call arguments in `tool_call` records (default: false). */
+  logArguments?: boolean;
+  /** Include result text in `tool_call` records (default: false). */
+  logResults?: boolean;
+  /** Logged arguments/results are cut to this many characters (default: 2000). */
+  maxLoggedChars?: number;
+  /** Extra argument keys whose values are always redacted. */
+  redactKeys?: string[];
+}
+
+export interface TracingConfig {
+  /** Append OTLP/JSON export requests to this file, one per line. */
+  file?: string;
+  /** OTLP/HTTP collector, e.g. `http://localhost:4318`; spans go to `/v1/traces`. */
+  endpoint?: string;
+  /** Extra request headers for the collector (secret references allowed). */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute (default: "openclaw-mcp-bridge"). */
+  serviceName?: string;
+}
+
+export type CallOutcome =
+  | "success"
+  | "tool_error"
+  | "error"
+  | "timeout"
+  | "cancelled"
+  | "invalid_arguments"
+  | "queue_timeout"
+  | "denied"
+  | "confirmation_required"
+  | "unavailable";
+
+export interface ToolCallRecord {
+  event: "tool_call";
+  server: string;
+  tool: string;
+  agentTool: string;
+  toolCallId?: string;
+  outcome: CallOutcome;
+  durationMs: number;
+  retries: number;
+  transport?: string;
+  /** Time spent waiting for a concurrency/rate limit slot, all attempts. */
+  queueWaitMs?: number;
+  /** Calls ahead in the queue, at the deepest. */
+  queueDepth?: number;
+  resultChars: number;
+  /** Error class from retry classification, when the call failed. */
+  errorType?: string;
+  error?: string;
+  arguments?: string;
+  result?: string;
+}
+
+interface CallResult {
+  content?: Array<{ type: string; text?: string }>;
+  details?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+export const DEFAULT_MAX_LOGGED_CHARS = 2000;
+export const DEFAULT_SERVICE_NAME = "openclaw-mcp-bridge";
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, off: 3 };
+
+// Argument keys that look like credentials
+const SENSITIVE_KEY = /password|passphrase|passwd|secret|token|api[-_]?key|^auth(orization)?$|cookie|credential|private[-_]?key/i;
+
+const REDACTED = "[redacted]";
+
+// Span batching
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH_SPANS = 100;
+// A hung collector must not hold up later batches or shutdown
+const EXPORT_TIMEOUT_MS = 10_000;
+
+// ---- Logging ----
+
+/** Drop log lines below `level`; `debug` falls back to `info` on hosts without it. */
+export function createLevelLogger<T extends Logger>(logger: T, level: LogLevel = DEFAULT_LOG_LEVEL): T {
+  const min = LEVELS[level] ?? LEVELS[DEFAULT_LOG_LEVEL];
+  const debug = logger.debug ?? logger.info;
+  return {
+    ...logger,
+    debug: (msg: string) => {
+      if (min <= LEVELS.debug) debug.call(logger, msg);
+    },
+    info: (msg: string) => {
+      if (min <= LEVELS.info) logger.info(msg);
+    },
+    warn: (msg: string) => {
+      if (min <= LEVELS.warn) logger.warn(msg);
+    },
+  };
+}
+
+/** Copy of `value` with credential-like keys (and `extraKeys`) replaced. */
+export function redactArguments(value: unknown, extraKeys: string[] = []): unknown {
+  const extra = new Set(extraKeys.map((k) => k.toLowerCase()));
+  const walk = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(walk);
+    if (!v || typeof v !== "object") return v;
+    return Object.fromEntries(
+      Object.entries(v).map(([key, inner]) =>
+        SENSITIVE_KEY.test(key) || extra.has(key.toLowerCase()) ? [key, REDACTED] : [key, walk(inner)]
+      )
+    );
+  };
+  return walk(value);
+}
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}… (${text.length} chars)` : text;
+}
+
+function resultText(result: CallResult): string {
+  return (result.content ?? [])
+    .map((item) => (item.type === "text" ? item.text ?? "" : `[${item.type}]`))
+    .join("\n");
+}
+
+function outcomeOf(result: CallResult, errorType?: string): CallOutcome {
+  const code = result.details?.error;
+  if (
+    code === "timeout" ||
+    code === "cancelled" ||
+    code === "invalid_arguments" ||
+    code === "queue_timeout" ||
+    code === "denied" ||
+    code === "confirmation_required"
+  ) {
+    return code;
+  }
+  if (!result.isError) return "success";
+  if (errorType === "circuit_open" || errorType === "tool_removed") return "unavailable";
+  return errorType ? "error" : "tool_error";
+}
+
+// ---- Tracing ----
+
+type AttributeValue = string | number | boolean;
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Array<{ key: string; value: Record<string, AttributeValue> }>;
+  status: { code: number; message?: string };
+}
+
+// OTLP enums
+const SPAN_KIND_CLIENT = 3;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+function toAttributes(values: Record<string, AttributeValue | undefined>): Span["attributes"] {
+  return Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([key, v]) => ({
+      key,
+      value:
+        typeof v === "number"
+          ? Number.isInteger(v)
+            ? { intValue: String(v) }
+            : { doubleValue: v }
+          : typeof v === "boolean"
+            ? { boolValue: v }
+            : { stringValue: String(v) },
+    }));
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+/** OTLP/JSON `ExportTraceServiceRequest` for one batch of spans. */
+export function toOtlpRequest(spans: Span[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes({ "service.name": serviceName }) },
+        scopeSpans: [{ scope: { name: "openclaw-mcp-bridge" }, spans }],
+      },
+    ],
+  };
+}
+
+/** Span for one finished call, named after the MCP method as OTel does. */
+export function toSpan(record: ToolCallRecord, startedAt: number): Span {
+  const failed = record.outcome !== "success";
+  return {
+    traceId: randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+    name: `tools/call ${record.tool}`,
+    kind: SPAN_KIND_CLIENT,
+    startTimeUnixNano: toUnixNano(startedAt),
+    endTimeUnixNano: toUnixNano(startedAt + record.durationMs),
+    attributes: toAttributes({
+      "mcp.method.name": "tools/call",
+      "mcp.server.name": record.server,
+      "gen_ai.tool.name": record.tool,
+      "openclaw.tool.name": record.agentTool,
+      "openclaw.tool_call.id": record.toolCallId,
+      "mcp.transport": record.transport,
+      "mcp.call.outcome": record.outcome,
+      "mcp.call.retries": record.retries,
+      "mcp.queue.wait_ms": record.queueWaitMs,
+      "mcp.result.chars": record.resultChars,
+      "error.type": failed ? (record.errorType ?? record.outcome) : undefined,
+    }),
+    status: failed ? { code: STATUS_ERROR, message: record.error ?? record.outcome } : { code: STATUS_OK },
+  };
+}
+
+/** Batches spans and writes them to a file and/or an OTLP/HTTP collector. */
+export class SpanExporter {
+  private pending: Span[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private inflight: Promise<void> = Promise.resolve();
+  private warned = false;
+
+  constructor(
+    private readonly config: TracingConfig,
+    private readonly logger: Logger
+  ) {}
+
+  get enabled(): boolean {
+    return Boolean(this.config.file || this.config.endpoint);
+  }
+
+  add(span: Span): void {
+    if (!this.enabled) return;
+    this.pending.push(span);
+    this.timer ??= setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    this.timer.unref?.();
+    if (this.pending.length >= MAX_BATCH_SPANS) void this.flush();
+  }
+
+  /**
+   * Export everything pending; resolves when written. Failed or timed-out
+   * batches are dropped (errors are logged once).
+   */
+  flush(): Promise<void> {
+    const spans = this.pending;
+    this.pending = [];
+    if (spans.length > 0) {
+      const body = redactSecrets(
+        JSON.stringify(toOtlpRequest(spans, this.config.serviceName ?? DEFAULT_SERVICE_NAME))
+      );
+      this.inflight = this.inflight.then(() => this.write(body));
+    }
+    return this.inflight;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    await this.flush();
+  }
+
+  private async write(body: string): Promise<void> {
+    try {
+      if (this.config.file) {
+        const file = this.config.file.startsWith("~/")
+          ? path.join(os.homedir(), this.config.file.slice(2))
+          : this.config.file;
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.appendFile(file, `${body}\n`);
+      }
+      if (this.config.endpoint) {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        for (const [key, value] of Object.entries(this.config.headers ?? {})) {
+          headers[key] = resolveSecrets(value, `tracing.headers.${key}`);
+        }
+        const url = `${this.config.endpoint.replace(/\/+$/, "")}/v1/traces`;
+        const response = await fetch(url, {
+          method: "POST",
+          headers,
+          body,
+          signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+        });
+        if (!response.ok) throw new Error(`collector returned HTTP ${response.status}`);
+      }
+      this.warned = false;
+    } catch (err: any) {
+      // One warning per outage, not one per batch
+      if (!this.warned) {
+        this.warned = true;
+        this.logger.warn(`mcp-bridge: trace export failed: ${err?.message ?? String(err)}`);
+      }
+    }
+  }
+}
+
+// ---- Calls ----
+
+export interface CallTrace {
+  /** Count one attempt (the first is not a retry). */
+  attempt(): void;
+  setTransport(transport: string | undefined): void;
+  /** Add time spent waiting for a limiter slot. */
+  queued(waitedMs: number, depth: number): void;
+  /** Remember the last failure of the call. */
+  fail(err: unknown, errorType: string): void;
+  /** Record and export the call; returns `result` unchanged. */
+  end<T extends CallResult>(result: T): T;
+}
+
+export class Telemetry {
+  readonly exporter: SpanExporter;
+  private readonly maxLoggedChars: number;
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly logging: LoggingConfig = {},
+    tracing: TracingConfig = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.exporter = new SpanExporter(tracing, logger);
+    this.maxLoggedChars = logging.maxLoggedChars ?? DEFAULT_MAX_LOGGED_CHARS;
+  }
+
+  startCall(call: {
+    server: string;
+    tool: string;
+    agentTool: string;
+    toolCallId?: string;
+    args: unknown;
+  }): CallTrace {
+    const startedAt = this.now();
+    let attempts = 0;
+    let transport: string | undefined;
+    let queueWaitMs = 0;
+    let queueDepth = 0;
+    let error: string | undefined;
+    let errorType: string | undefined;
+
+    return {
+      attempt: () => {
+        attempts++;
+      },
+      setTransport: (t) => {
+        transport = t ?? transport;
+      },
+      queued: (waitedMs, depth) => {
+        queueWaitMs += waitedMs;
+        queueDepth = Math.max(queueDepth, depth);
+      },
+      fail: (err, type) => {
+        error = (err as any)?.message ?? String(err);
+        errorType = type;
+      },
+      end: (result) => {
+        const text = resultText(result);
+        const outcome = outcomeOf(result, errorType);
+        const record: ToolCallRecord = {
+          event: "tool_call",
+          server: call.server,
+          tool: call.tool,
+          agentTool: call.agentTool,
+          toolCallId: call.toolCallId,
+          outcome,
+          durationMs: this.now() - startedAt,
+          retries: Math.max(0, attempts - 1),
+          transport,
+          ...(queueWaitMs > 0 ? { queueWaitMs, queueDepth } : {}),
+          resultChars: text.length,
+          ...(outcome !== "success" && errorType ? { errorType, error } : {}),
+        };
+        if (this.logging.logArguments) {
+          record.arguments = clip(
+            JSON.stringify(redactArguments(call.args, this.logging.redactKeys)) ?? "",
+            this.maxLoggedChars
+          );
+        }
+        if (this.logging.logResults) {
+          record.result = clip(text, this.maxLoggedChars);
+        }
+
+        this.log(record);
+        this.exporter.add(toSpan(record, startedAt));
+        return result;
+      },
+    };
+  }
+
+  private log(record: ToolCallRecord): void {
+    const line = `mcp-bridge: tool_call ${redactSecrets(JSON.stringify(record))}`;
+    if (
+      record.outcome === "success" ||
+      record.outcome === "tool_error" ||
+      record.outcome === "confirmation_required"
+    ) {
+      this.logger.info(line);
+    } else {
+      this.logger.warn(line);
+    }
+  }
+
+  shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+}
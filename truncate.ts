@@ -0,0 +1,236 @@
+/**
+ * Large tool results: truncation and paging.
+ *
+ * Text output above `maxResultChars` is cut down (head, tail or head+tail)
+ * before it reaches the agent context. The full payload is kept in a
+ * {@link ResultStore} — in memory, or spilled to a temp file — and the agent
+ * pages through it with the `mcp_bridge_read_result` tool.
+ */
+
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ToolContent } from "./resources.js";
+
+// ---- Types ----
+
+export type TruncationStrategy = "head" | "tail" | "head+tail";
+
+export type ResultStorage = "memory" | "file";
+
+export const DEFAULT_MAX_RESULT_CHARS = 50_000;
+export const DEFAULT_TRUNCATION_STRATEGY: TruncationStrategy = "head+tail";
+export const READ_RESULT_TOOL = "mcp_bridge_read_result";
+
+// Stored payloads kept before the oldest is evicted
+const MAX_STORED_RESULTS = 50;
+
+interface StoredResult {
+  id: string;
+  label: string;
+  /** Agent id of the call that produced it ("" without one). */
+  owner: string;
+  length: number;
+  /** Set for in-memory storage. */
+  text?: string;
+  /** Set for file storage. */
+  file?: string;
+}
+
+// ---- Truncation ----
+
+export function truncateText(
+  text: string,
+  maxChars: number,
+  strategy: TruncationStrategy = DEFAULT_TRUNCATION_STRATEGY
+): { text: string; omitted: number } {
+  if (text.length <= maxChars) return { text, omitted: 0 };
+
+  const omitted = text.length - maxChars;
+  switch (strategy) {
+    case "head":
+      return { text: `${text.slice(0, maxChars)}\n[… ${omitted} chars omitted]`, omitted };
+    case "tail":
+      return { text: `[… ${omitted} chars omitted]\n${text.slice(-maxChars)}`, omitted };
+    case "head+tail": {
+      const head = Math.ceil(maxChars / 2);
+      const tail = maxChars - head;
+      return {
+        text: `${text.slice(0, head)}\n[… ${omitted} chars omitted …]\n${tail > 0 ? text.slice(-tail) : ""}`,
+        omitted,
+      };
+    }
+  }
+}
+
+// ---- Storage ----
+
+/**
+ * Full payloads of truncated results, addressable by id. The oldest entry is
+ * evicted once `maxEntries` is exceeded; `clear()` removes spilled files.
+ */
+export class ResultStore {
+  private readonly results = new Map<string, StoredResult>();
+  private dir?: string;
+
+  constructor(
+    private readonly storage: ResultStorage = "memory",
+    private readonly maxEntries = MAX_STORED_RESULTS
+  ) {}
+
+  /** Store a payload for `owner` (an agent id); returns its id and, for file storage, the file path. */
+  put(label: string, text: string, owner = ""): { id: string; file?: string } {
+    const id = `r_${randomUUID().slice(0, 8)}`;
+    const stored: StoredResult = { id, label, owner, length: text.length };
+
+    if (this.storage === "file") {
+      this.dir ??= fs.mkdtempSync(path.join(os.tmpdir(), "mcp-bridge-results-"));
+      stored.file = path.join(this.dir, `${id}.txt`);
+      fs.writeFileSync(stored.file, text, "utf-8");
+    } else {
+      stored.text = text;
+    }
+
+    this.results.set(id, stored);
+    while (this.results.size > this.maxEntries) {
+      this.delete(this.results.keys().next().value!);
+    }
+    return { id, file: stored.file };
+  }
+
+  /** Read `length` chars from `offset`; null if the id is unknown, evicted or not `owner`'s. */
+  read(
+    id: string,
+    offset: number,
+    length: number,
+    owner = ""
+  ): { label: string; text: string; total: number } | null {
+    const stored = this.results.get(id);
+    if (!stored || stored.owner !== owner) return null;
+
+    let text: string;
+    try {
+      text = stored.text ?? fs.readFileSync(stored.file!, "utf-8");
+    } catch {
+      return null;
+    }
+    return { label: stored.label, text: text.slice(offset, offset + length), total: stored.length };
+  }
+
+  clear(): void {
+    for (const id of [...this.results.keys()]) this.delete(id);
+    if (this.dir) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+      this.dir = undefined;
+    }
+  }
+
+  private delete(id: string): void {
+    const stored = this.results.get(id);
+    this.results.delete(id);
+    if (stored?.file) fs.rmSync(stored.file, { force: true });
+  }
+}
+
+// ---- Results ----
+
+export interface LimitResultOptions {
+  maxChars: number;
+  strategy?: TruncationStrategy;
+  store: ResultStore;
+  /** Names the payload in the store, e.g. `github/search_code`. */
+  label: string;
+  /** Agent the payload belongs to; only it can read it back. */
+  owner?: string;
+}
+
+/**
+ * Enforce `maxChars` on the text content of a converted result. Text items
+ * are joined, truncated and replaced by one item pointing at the stored full
+ * payload; non-text items are kept.
+ */
+export function limitResultText<T extends { content: ToolContent[]; details?: Record<string, unknown> }>(
+  result: T,
+  opts: LimitResultOptions
+): T {
+  const texts = result.content.filter((c) => c.type === "text") as Array<{ type: "text"; text: string }>;
+  const full = texts.map((c) => c.text).join("\n");
+  if (full.length <= opts.maxChars) return result;
+
+  const { id, file } = opts.store.put(opts.label, full, opts.owner);
+  const { text } = truncateText(full, opts.maxChars, opts.strategy);
+  const notice =
+    `\n\n[Result truncated: showing ${opts.maxChars} of ${full.length} chars. ` +
+    `Call ${READ_RESULT_TOOL} with id "${id}" and an offset to read the rest` +
+    (file ? `, or open ${file}` : "") +
+    ".]";
+
+  return {
+    ...result,
+    content: [
+      { type: "text", text: text + notice },
+      ...result.content.filter((c) => c.type !== "text"),
+    ],
+    details: { ...result.details, truncated: { id, totalChars: full.length, ...(file ? { file } : {}) } },
+  };
+}
+
+// ---- Tool ----
+
+/**
+ * Pages are `maxLength` characters by default and never longer. One tool per
+ * agent: it only reads results of that agent's calls.
+ */
+export function createReadResultTool(store: ResultStore, maxLength: number, agentId?: string) {
+  return {
+    name: READ_RESULT_TOOL,
+    description:
+      "Read part of a truncated MCP tool result. Truncated results include an id; pass it with an offset (and optional length) to page through the full output.",
+    parameters: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Result id from the truncation notice" },
+        offset: { type: "integer", minimum: 0, description: "Character offset to start at (default: 0)" },
+        length: {
+          type: "integer",
+          minimum: 1,
+          maximum: maxLength,
+          description: `Number of characters to read (default and maximum: ${maxLength})`,
+        },
+      },
+      required: ["id"],
+    },
+    async execute(_toolCallId: string, params: Record<string, unknown>) {
+      const id = typeof params?.id === "string" ? params.id : "";
+      const offset = typeof params?.offset === "number" ? Math.max(0, Math.floor(params.offset)) : 0;
+      // Capped so one page cannot pull in more than maxResultChars
+      const length =
+        typeof params?.length === "number"
+          ? Math.min(maxLength, Math.max(1, Math.floor(params.length)))
+          : maxLength;
+
+      const page = store.read(id, offset, length, agentId ?? "");
+      if (!page) {
+        return {
+          content: [
+            { type: "text" as const, text: `Unknown or expired result id '${id}'. Call the original tool again.` },
+          ],
+          isError: true,
+        };
+      }
+
+      const end = offset + page.text.length;
+      const more = end < page.total ? ` Next offset: ${end}.` : " End of result.";
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `[${page.label}: chars ${offset}–${end} of ${page.total}.${more}]\n${page.text}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  };
+}
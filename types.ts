@@ -0,0 +1,122 @@
+/**
+ * Shared configuration types for the plugin, discovery CLI and connection helpers.
+ */
+
+import type { AgentConfig, AgentCredentials } from "./agents.js";
+import type { ApprovalPolicy } from "./approval.js";
+import type { ElicitationConfig } from "./elicitation.js";
+import type { RateLimit } from "./limiter.js";
+import type { CollisionStrategy } from "./naming.js";
+import type { OAuthConfig } from "./oauth.js";
+import type { CircuitBreakerConfig, RetryPolicy } from "./retry.js";
+import type { RootConfig } from "./roots.js";
+import type { SamplingConfig } from "./sampling.js";
+import type { SchemaProfile } from "./schema.js";
+import type { LoggingConfig, TracingConfig } from "./telemetry.js";
+import type { ResultStorage, TruncationStrategy } from "./truncate.js";
+import type { ArgValidationConfig } from "./validate.js";
+
+export type TransportMode = "streamable-http" | "sse" | "auto";
+
+/** Per-tool settings, keyed by MCP tool name in `ServerConfig.tools`. */
+export interface ToolOverrides {
+  callTimeoutMs?: number;
+  maxTotalTimeoutMs?: number;
+  /** Overrides the server approval policy for this tool. */
+  approval?: ApprovalPolicy;
+}
+
+export interface ServerConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  /** Directories offered via `roots/list`; `${workspace}` = the agent workspace. */
+  roots?: RootConfig[];
+  enabled?: boolean;
+  /** Agent ids that may use this server ("*" = any agent with an id). */
+  allowAgents?: string[];
+  /** Agents with any of these tags may use this server. */
+  allowTags?: string[];
+  /** `env`/`headers` merged over the server's own, keyed by agent id. */
+  agentOverrides?: Record<string, AgentCredentials>;
+  toolPrefix?: boolean;
+  /** Custom tool name prefix (e.g. "gh"); overrides toolPrefix. "" = no prefix. */
+  prefix?: string;
+  /** Glob patterns of MCP tool names to expose (default: all). */
+  includeTools?: string[];
+  /** Glob patterns of MCP tool names to hide. */
+  excludeTools?: string[];
+  /** Explicit agent tool names keyed by MCP tool name. */
+  rename?: Record<string, string>;
+  transport?: TransportMode;
+  /** OAuth 2.1 for URL servers; `true` uses dynamic client registration. */
+  oauth?: OAuthConfig | boolean;
+  connectTimeoutMs?: number;
+  /** Connect when the gateway starts instead of on first use (default: false). */
+  connectOnStart?: boolean;
+  /** Interval for MCP ping health checks; 0 disables (default: 60000). */
+  pingIntervalMs?: number;
+  /** Close the connection after this long without calls (default: never). */
+  idleTimeoutMs?: number;
+  callTimeoutMs?: number;
+  /** Progress notifications restart the call timeout (default: true). */
+  resetTimeoutOnProgress?: boolean;
+  /** Upper bound for a call even while it reports progress. */
+  maxTotalTimeoutMs?: number;
+  /** Calls in flight at once; extra calls queue in order (default: unlimited). */
+  maxConcurrency?: number;
+  /** How long a call may wait for a slot before failing (default: 60000). */
+  queueTimeoutMs?: number;
+  /** Call quota, e.g. `{ calls: 60, per: "minute" }`. */
+  rateLimit?: RateLimit;
+  tools?: Record<string, ToolOverrides>;
+  /** Approval policy for all tools (default: confirm destructive tools, allow the rest). */
+  approval?: ApprovalPolicy;
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerConfig;
+  /** Overrides the plugin-level schemaProfile for this server. */
+  schemaProfile?: SchemaProfile;
+  /** Argument validation before tools/call (enabled by default). */
+  validation?: ArgValidationConfig;
+  /** Read `resource_link` results via resources/read and inline them (default: false). */
+  fetchResourceLinks?: boolean;
+  /** Overrides the plugin-level maxResultChars for this server. */
+  maxResultChars?: number;
+  resultTruncation?: TruncationStrategy;
+  /** Let the server request LLM completions (`sampling/createMessage`). */
+  sampling?: SamplingConfig;
+  /** Let the server ask for user input (`elicitation/create`). */
+  elicitation?: ElicitationConfig;
+}
+
+export interface PluginConfig {
+  servers?: Record<string, ServerConfig>;
+  /** Per-agent settings keyed by agent id (tags for `allowTags`). */
+  agents?: Record<string, AgentConfig>;
+  optional?: boolean;
+  refreshOnStart?: boolean;
+  /** How duplicate agent tool names are resolved (default: "force-prefix"). */
+  collisionStrategy?: CollisionStrategy;
+  /** Host limit for tool names; longer names get a hash suffix (default: 64). */
+  maxToolNameLength?: number;
+  /** How tool parameter schemas are normalized (default: "standard"). */
+  schemaProfile?: SchemaProfile;
+  /** Text results above this size are truncated (default: 50000). */
+  maxResultChars?: number;
+  /** Which part of a truncated result is kept (default: "head+tail"). */
+  resultTruncation?: TruncationStrategy;
+  /** Where full payloads of truncated results are kept (default: "memory"). */
+  resultStorage?: ResultStorage;
+  /** Log level and per-call record contents. */
+  logging?: LoggingConfig;
+  /** OTLP/JSON span export for tool calls (off unless `file` or `endpoint` is set). */
+  tracing?: TracingConfig;
+}
+
+export interface Logger {
+  debug?: (msg: string) => void;
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}
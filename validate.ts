@@ -0,0 +1,209 @@
+/**
+ * Tool-call argument (and structured result) validation.
+ *
+ * Each cached `inputSchema` is compiled once with Ajv. Arguments are checked
+ * before `tools/call`, so a model that passes a wrong type or a hallucinated
+ * field gets a precise error it can act on instead of the server's own error
+ * (or the server acting on bad input). Optional coercion fixes safe cases:
+ * scalar strings to numbers/booleans and dropping undeclared keys.
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import _addFormats from "ajv-formats";
+
+// ---- Types ----
+
+export interface ArgValidationConfig {
+  /** Validate arguments before dispatch (default: true). */
+  enabled?: boolean;
+  /** Coerce scalar strings such as "5" or "true" to the declared type (default: false). */
+  coerceTypes?: boolean;
+  /** Drop keys not declared in `properties` instead of forwarding them (default: false). */
+  removeUnknown?: boolean;
+}
+
+export interface ValidationError {
+  /** JSON pointer into the arguments, "/" for the root. */
+  path: string;
+  message: string;
+}
+
+export type ArgValidationResult =
+  | { valid: true; args: Record<string, unknown>; removed: string[] }
+  | { valid: false; errors: ValidationError[] };
+
+export type ArgValidator = (args: Record<string, unknown> | undefined) => ArgValidationResult;
+
+type JsonSchema = Record<string, unknown>;
+
+// ---- Ajv instances ----
+
+const addFormats = _addFormats as unknown as (ajv: Ajv) => Ajv;
+const instances = new Map<string, Ajv>();
+
+function getAjv(draft2020: boolean, coerceTypes: boolean): Ajv {
+  const key = `${draft2020}:${coerceTypes}`;
+  let ajv = instances.get(key);
+  if (!ajv) {
+    const options = {
+      strict: false,
+      allErrors: true,
+      coerceTypes,
+      // Server schemas may reuse $id values; keep them out of the registry
+      addUsedSchema: false,
+      validateSchema: false,
+      logger: false as const,
+    };
+    ajv = draft2020 ? new Ajv2020(options) : new Ajv(options);
+    addFormats(ajv);
+    instances.set(key, ajv);
+  }
+  return ajv;
+}
+
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+// ---- Unknown keys ----
+
+/**
+ * Remove keys that no `properties` entry declares, recursing into declared
+ * object properties and array items. Objects whose schema explicitly allows
+ * extra keys (`additionalProperties` true or a schema, `patternProperties`)
+ * are left alone. Returns the removed paths.
+ */
+export function removeUnknownKeys(
+  value: unknown,
+  schema: unknown,
+  root: JsonSchema = isObject(schema) ? schema : {},
+  path = ""
+): string[] {
+  if (!isObject(schema)) return [];
+
+  if (typeof schema.$ref === "string" && schema.$ref.startsWith("#")) {
+    let target: unknown = root;
+    for (const raw of schema.$ref.slice(2).split("/").filter(Boolean)) {
+      target = isObject(target) ? target[raw.replace(/~1/g, "/").replace(/~0/g, "~")] : undefined;
+    }
+    return removeUnknownKeys(value, target, root, path);
+  }
+
+  const removed: string[] = [];
+
+  if (Array.isArray(value) && isObject(schema.items)) {
+    value.forEach((item, i) => removed.push(...removeUnknownKeys(item, schema.items, root, `${path}/${i}`)));
+    return removed;
+  }
+
+  if (!isObject(value) || !isObject(schema.properties)) return removed;
+
+  const properties = schema.properties;
+  const allowsExtra =
+    schema.additionalProperties === true ||
+    isObject(schema.additionalProperties) ||
+    schema.patternProperties !== undefined;
+
+  for (const key of Object.keys(value)) {
+    if (key in properties) {
+      removed.push(...removeUnknownKeys(value[key], properties[key], root, `${path}/${pointer(key)}`));
+    } else if (!allowsExtra) {
+      delete value[key];
+      removed.push(`${path}/${pointer(key)}`);
+    }
+  }
+  return removed;
+}
+
+// ---- Errors ----
+
+function toValidationError(error: ErrorObject): ValidationError {
+  const params = error.params as Record<string, unknown>;
+  let path = error.instancePath;
+  let message = error.message ?? "is invalid";
+
+  if (error.keyword === "required") {
+    path = `${path}/${pointer(String(params.missingProperty))}`;
+    message = "is required";
+  } else if (error.keyword === "additionalProperties") {
+    path = `${path}/${pointer(String(params.additionalProperty))}`;
+    message = "is not an allowed property";
+  } else if (error.keyword === "enum" && Array.isArray(params.allowedValues)) {
+    message = `must be one of ${params.allowedValues.map((v) => JSON.stringify(v)).join(", ")}`;
+  }
+
+  return { path: path || "/", message };
+}
+
+// ---- Compile ----
+
+function compileSchema(inputSchema: JsonSchema, coerceTypes: boolean) {
+  const { $schema, ...schema } = inputSchema;
+  const draft2020 = typeof $schema === "string" && /2019-09|2020-12/.test($schema);
+  const ajv = getAjv(draft2020, coerceTypes);
+
+  try {
+    return { schema, validate: ajv.compile(schema) };
+  } catch {
+    return null;
+  }
+}
+
+function collectErrors(validate: ValidateFunction): ValidationError[] {
+  const seen = new Set<string>();
+  return (validate.errors ?? []).map(toValidationError).filter((e) => {
+    const key = `${e.path}\u0000${e.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Compile a validator for one tool's `inputSchema`. Returns null when
+ * validation is disabled or the schema does not compile (the call is then
+ * forwarded unchecked, as before).
+ */
+export function compileArgValidator(
+  inputSchema: unknown,
+  config: ArgValidationConfig = {}
+): ArgValidator | null {
+  if (config.enabled === false || !isObject(inputSchema)) return null;
+
+  const compiled = compileSchema(inputSchema, config.coerceTypes === true);
+  if (!compiled) return null;
+  const { schema, validate } = compiled;
+
+  return (args) => {
+    // Coercion and removal mutate; never touch the caller's object
+    const data: Record<string, unknown> = structuredClone(args ?? {});
+    const removed = config.removeUnknown ? removeUnknownKeys(data, schema) : [];
+
+    if (validate(data)) {
+      return { valid: true, args: data, removed };
+    }
+    return { valid: false, errors: collectErrors(validate) };
+  };
+}
+
+/**
+ * Compile a validator for a tool's `outputSchema`; it returns the errors for
+ * a `structuredContent` value (empty when valid). Null if there is no schema
+ * or it does not compile.
+ */
+export function compileOutputValidator(
+  outputSchema: unknown
+): ((value: unknown) => ValidationError[]) | null {
+  if (!isObject(outputSchema)) return null;
+
+  const compiled = compileSchema(outputSchema, false);
+  if (!compiled) return null;
+  const { validate } = compiled;
+
+  return (value) => (validate(value) ? [] : collectErrors(validate));
+}